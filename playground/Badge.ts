@@ -11,7 +11,7 @@ import { ViewModel, createView, property, html, css } from '../src';
 
 class BadgeVM extends ViewModel {
   @property() label = '';
-  @property() count = 0;
+  @property({ type: Number }) count = 0;
   @property() variant: 'default' | 'success' | 'warning' = 'default';
 }
 
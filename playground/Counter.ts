@@ -5,7 +5,7 @@ import { View, createView, property, html, css } from '../src';
 // 2. Click this counter a few times
 // 3. Change HMR_VERSION below and save
 // 4. Verify:
-//    - Counter HMR_VERSION updates, count resets (this component remounted) ✓
+//    - Counter HMR_VERSION updates, count is kept (state restored after onCreate) ✓
 //    - Parent Todo's todos SURVIVE (parent not affected) ✓
 
 const HMR_VERSION = 'v1';
@@ -44,7 +44,7 @@ class CounterView extends View {
   `;
 
   // Props
-  @property()
+  @property({ type: Number, attribute: 'initial-count' })
   initialCount = 0;
 
   // Internal state
@@ -3,7 +3,7 @@
  * ViewModel + external template with child components
  */
 
-import { ViewModel, createView, property, html, css } from '../src';
+import { ViewModel, createView, property, html, css, type EventsOf } from '../src';
 import './Badge';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -21,6 +21,8 @@ interface Task {
 // ─────────────────────────────────────────────────────────────────────────────
 
 class TaskListVM extends ViewModel {
+  declare readonly emits: { 'task-added': Task };
+
   @property() title = 'Tasks';
   
   tasks: Task[] = [
@@ -43,11 +45,13 @@ class TaskListVM extends ViewModel {
   }
   
   addTask() {
-    this.tasks.push({
+    const task = {
       id: Date.now(),
       text: `Task ${this.tasks.length + 1}`,
       done: false,
-    });
+    };
+    this.tasks.push(task);
+    this.emit('task-added', task, { bubbles: true, composed: true });
   }
 }
 
@@ -159,4 +163,5 @@ declare global {
   interface HTMLElementTagNameMap {
     'x-task-list': TaskListVM;
   }
+  interface HTMLElementEventMap extends EventsOf<TaskListVM> {}
 }
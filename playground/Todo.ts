@@ -17,7 +17,7 @@ class TodoView extends View {
 
   // Props
   @property() title = '';
-  @property() initialTodos: TodoItem[] = [];
+  @property({ attribute: false }) initialTodos: TodoItem[] = [];
   @property() onCountChange?: (count: number) => void;
 
   // Internal state
@@ -31,4 +31,13 @@ header.style.cssText = 'color: #94a3b8; font-size: 1rem; margin-bottom: 1rem;';
 app.appendChild(header);
 
 // Mount the task list (separated pattern - external template)
-mount('x-task-list', { title: 'Separated ViewModel + Template' }, app);
+const taskList = mount('x-task-list', { title: 'Separated ViewModel + Template' }, app);
+
+// Show the task list's emitted events
+const lastAdded = document.createElement('p');
+lastAdded.textContent = 'No task added yet';
+lastAdded.style.cssText = 'color: #94a3b8; font-size: 0.875rem; margin-top: 0.5rem;';
+app.appendChild(lastAdded);
+taskList.element.addEventListener('task-added', (e) => {
+  lastAdded.textContent = `task-added: ${e.detail.text}`;
+});
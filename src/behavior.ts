@@ -1,5 +1,11 @@
-import { makeObservable, observable, computed, action, reaction, type AnnotationsMap } from 'mobx';
+import {
+  makeObservable, observable, computed, action, reaction, runInAction, untracked, comparer,
+  isObservableMap, isObservableSet, type AnnotationsMap,
+} from 'mobx';
 import { globalConfig, reportError, type WatchOptions } from './config';
+import { WatcherSet } from './watch';
+import { emitEvent, type EmitOptions } from './events';
+import { ContextConsumerSet, type Context, type ContextConsumer } from './context';
 
 /** Symbol marker to identify behavior instances */
 export const BEHAVIOR_MARKER = Symbol('behavior');
@@ -11,8 +17,11 @@ const BEHAVIOR_EXCLUDES = new Set([
   'onUnmount',
   'watch',
   'constructor',
-  '_watchDisposers',
-  '_disposeWatchers',
+  '_watchers',
+  '_host',
+  '_contexts',
+  'emit',
+  'consume',
 ]);
 
 /**
@@ -31,7 +40,16 @@ const BEHAVIOR_EXCLUDES = new Set([
  */
 export class Behavior {
   /** @internal */
-  _watchDisposers: (() => void)[] = [];
+  _watchers = new WatcherSet({ name: this.constructor.name, isBehavior: true });
+
+  /** @internal Host element of the parent View, set when the View collects its behaviors */
+  _host?: EventTarget;
+
+  /** @internal */
+  _contexts = new ContextConsumerSet();
+
+  /** Event map for emit(). Type-only: `declare readonly emits: { 'drag-end': Point }` */
+  declare readonly emits: {};
 
   onCreate?(...args: any[]): void;
   onMount?(): void | (() => void);
@@ -39,7 +57,7 @@ export class Behavior {
 
   /**
    * Watch a reactive expression and run a callback when it changes.
-   * Automatically disposed on unmount.
+   * Paused while the parent View is unmounted and resumed when it mounts again.
    * 
    * @param expr - Reactive expression (getter) to watch
    * @param callback - Called when the expression result changes
@@ -59,37 +77,45 @@ export class Behavior {
     callback: (value: T, prevValue: T | undefined) => void,
     options?: WatchOptions
   ): () => void {
-    const dispose = reaction(
-      expr,
-      (value, prevValue) => {
-        try {
-          callback(value, prevValue);
-        } catch (e) {
-          reportError(e, { phase: 'watch', name: this.constructor.name, isBehavior: true });
-        }
-      },
-      {
-        delay: options?.delay,
-        fireImmediately: options?.fireImmediately,
-      }
-    );
-
-    this._watchDisposers.push(dispose);
+    return this._watchers.add(expr, callback, options);
+  }
 
-    // Return a dispose function that also removes from the array
-    return () => {
-      dispose();
-      const idx = this._watchDisposers.indexOf(dispose);
-      if (idx !== -1) this._watchDisposers.splice(idx, 1);
-    };
+  /**
+   * Dispatch a typed CustomEvent from the parent View's host element.
+   * Event names and detail types come from the `emits` declaration.
+   * 
+   * @example
+   * ```ts
+   * class DragBehavior extends Behavior {
+   *   declare readonly emits: { 'drag-end': { x: number; y: number } };
+   *   
+   *   onPointerUp(e: PointerEvent) {
+   *     this.emit('drag-end', { x: e.clientX, y: e.clientY }, { bubbles: true });
+   *   }
+   * }
+   * ```
+   */
+  emit<K extends keyof this['emits'] & string>(type: K, detail: this['emits'][K], options?: EmitOptions): boolean {
+    return emitEvent(this._host, this.constructor.name, type, detail, options);
   }
 
-  /** @internal */
-  _disposeWatchers(): void {
-    for (const dispose of this._watchDisposers) {
-      dispose();
-    }
-    this._watchDisposers.length = 0;
+  /**
+   * Consume a value provided by an ancestor of the parent View.
+   * The returned consumer's `value` is observable and set while the View is mounted.
+   * 
+   * @example
+   * ```ts
+   * class CartBehavior extends Behavior {
+   *   store = this.consume(StoreContext);
+   *   
+   *   get count() {
+   *     return this.store.value?.cart.length ?? 0;
+   *   }
+   * }
+   * ```
+   */
+  consume<V>(context: Context<unknown, V>): ContextConsumer<V> {
+    return this._contexts.add(context);
   }
 }
 
@@ -142,6 +168,8 @@ function makeBehaviorObservable<T extends object>(instance: T): void {
 export interface BehaviorEntry {
   instance: any;
   cleanup?: () => void;
+  /** Behaviors held in the instance's own fields */
+  children: BehaviorSet;
 }
 
 /**
@@ -180,15 +208,17 @@ type BehaviorFactory<Args extends any[], Instance> = {
  * @example Defining a behavior
  * ```ts
  * class DragBehavior extends Behavior {
- *   ref!: HTMLElement | null;
+ *   ref!: Ref<HTMLElement>;
  *   
- *   onCreate(ref: HTMLElement | null) {
+ *   onCreate(ref: Ref<HTMLElement>) {
  *     this.ref = ref;
  *   }
  *   
  *   onMount() {
- *     this.ref?.addEventListener('pointerdown', this.onPointerDown);
- *     return () => this.ref?.removeEventListener('pointerdown', this.onPointerDown);
+ *     // Refs are set by the first render. Watch `this.ref.value` to follow a swapped element.
+ *     const element = this.ref.value;
+ *     element?.addEventListener('pointerdown', this.onPointerDown);
+ *     return () => element?.removeEventListener('pointerdown', this.onPointerDown);
  *   }
  * }
  * 
@@ -198,10 +228,14 @@ type BehaviorFactory<Args extends any[], Instance> = {
  * @example Using in a View
  * ```ts
  * class Editor extends View<Props> {
- *   canvasRef: HTMLCanvasElement | null = null;
+ *   canvas = createRef<HTMLCanvasElement>();
  *   
  *   // No `new` keyword — factory function
- *   drag = withDrag(this.canvasRef);
+ *   drag = withDrag(this.canvas);
+ *   
+ *   render() {
+ *     return html`<canvas ${ref(this.canvas)}></canvas>`;
+ *   }
  * }
  * export const EditorElement = createView(Editor, { tag: 'x-editor' });
  * ```
@@ -256,22 +290,47 @@ export function isBehavior(value: unknown): boolean {
 }
 
 /** @internal */
+export function createBehaviorEntry(instance: object): BehaviorEntry {
+  return { instance, children: new BehaviorSet(instance) };
+}
+
+/**
+ * @internal Attach a behavior (and its children) to the parent View's host and
+ * request context values, before the View's onCreate and render
+ */
+export function connectBehavior(behavior: BehaviorEntry, host: EventTarget): void {
+  const inst = behavior.instance;
+  inst._host = host;
+  if (inst._contexts instanceof ContextConsumerSet) inst._contexts.connect(host);
+  behavior.children.connect(host);
+}
+
+/** @internal Mounts child behaviors first, so they are ready in the owner's onMount */
 export function mountBehavior(behavior: BehaviorEntry): void {
+  behavior.children.mount();
+
   const inst = behavior.instance;
+  const watchers = inst._watchers instanceof WatcherSet ? inst._watchers : undefined;
+
+  // Restart watchers suspended by a previous unmount
+  watchers?.resume();
 
   if ('onMount' in inst && typeof inst.onMount === 'function') {
+    if (watchers) watchers.mounting = true;
     try {
       behavior.cleanup = inst.onMount() ?? undefined;
     } catch (e) {
       reportError(e, { phase: 'onMount', name: inst.constructor.name, isBehavior: true });
     }
+    if (watchers) watchers.mounting = false;
   }
 }
 
-/** @internal */
+/** @internal Unmounts the owner first, then its child behaviors */
 export function unmountBehavior(behavior: BehaviorEntry): void {
   // Call cleanup if exists
   behavior.cleanup?.();
+  behavior.cleanup = undefined;
 
   // Call onUnmount if exists
   const inst = behavior.instance;
@@ -283,8 +342,162 @@ export function unmountBehavior(behavior: BehaviorEntry): void {
     }
   }
 
-  // Dispose all watchers
-  if (typeof inst._disposeWatchers === 'function') {
-    inst._disposeWatchers();
+  behavior.children.unmount();
+  release(inst);
+}
+
+/** @internal Suspend watchers and release context subscriptions, without unmount hooks */
+export function disposeBehavior(behavior: BehaviorEntry): void {
+  behavior.children.dispose();
+  release(behavior.instance);
+}
+
+function release(inst: any): void {
+  // Suspend watchers until the next mount
+  if (inst._watchers instanceof WatcherSet) {
+    inst._watchers.suspend();
+  }
+
+  // Release context subscriptions
+  if (inst._contexts instanceof ContextConsumerSet) {
+    inst._contexts.disconnect();
+  }
+}
+
+/**
+ * Behaviors in an owner's fields, directly or inside arrays, Maps and Sets, and the
+ * fields that can hold one: behaviors, collections, and empty (nullish) fields
+ */
+function findBehaviors(owner: object): { found: Set<object>; keys: string[] } {
+  const found = new Set<object>();
+  const keys: string[] = [];
+  for (const key of Object.keys(owner)) {
+    if (key.startsWith('_')) continue;
+    const value = (owner as any)[key];
+    if (isBehavior(value)) {
+      found.add(value);
+    } else if (isCollection(value)) {
+      for (const item of itemsOf(value)) if (isBehavior(item)) found.add(item as object);
+    } else if (value != null) {
+      continue;
+    }
+    keys.push(key);
+  }
+  return { found, keys };
+}
+
+function isCollection(value: unknown): value is unknown[] | Map<unknown, unknown> | Set<unknown> {
+  return Array.isArray(value) || value instanceof Map || value instanceof Set || isObservableMap(value) || isObservableSet(value);
+}
+
+function itemsOf(collection: unknown[] | Map<unknown, unknown> | Set<unknown>): Iterable<unknown> {
+  return Array.isArray(collection) ? collection : collection.values();
+}
+
+/**
+ * @internal
+ * The behaviors a View or Behavior owns, found in its fields. While the owner is
+ * mounted its observable fields are tracked: behaviors assigned later mount right
+ * away, and behaviors that are removed unmount. Only fields that can hold behaviors
+ * are tracked, and a collection's items only while it holds behaviors (or is
+ * empty), so other state and large lists of data stay cheap.
+ */
+export class BehaviorSet {
+  private _entries = new Map<object, BehaviorEntry>();
+  private _host?: EventTarget;
+  private _mounted = false;
+  private _stopTracking?: () => void;
+  // Fields the mounted reaction reads, from the last sync. Observable, so it reads the new ones.
+  private _keys = observable.box<string[]>([], { deep: false, equals: comparer.shallow });
+  // Whether each collection field's items are tracked, decided once per sync
+  private _trackedCollections = new WeakMap<object, boolean>();
+
+  constructor(private _owner: object) {}
+
+  /** The owned behaviors, for devtools */
+  entries(): BehaviorEntry[] {
+    return [...this._entries.values()];
+  }
+
+  /** Add behaviors that appeared in the owner's fields and drop the ones that are gone */
+  sync(): void {
+    const { found, keys } = findBehaviors(this._owner);
+    this._trackedCollections = new WeakMap();
+    runInAction(() => this._keys.set(keys));
+
+    for (const [instance, entry] of this._entries) {
+      if (found.has(instance)) continue;
+      this._entries.delete(instance);
+      if (this._mounted) unmountBehavior(entry);
+      else disposeBehavior(entry);
+    }
+
+    for (const instance of found) {
+      if (this._entries.has(instance)) continue;
+      const entry = createBehaviorEntry(instance);
+      this._entries.set(instance, entry);
+      if (this._host) connectBehavior(entry, this._host);
+      if (this._mounted) mountBehavior(entry);
+    }
+  }
+
+  connect(host: EventTarget): void {
+    this._host = host;
+    for (const entry of this._entries.values()) connectBehavior(entry, host);
+    this.sync();
+  }
+
+  mount(): void {
+    if (this._mounted) return;
+    this.sync();
+    for (const entry of this._entries.values()) mountBehavior(entry);
+    this._mounted = true;
+    this._stopTracking = reaction(() => this._fields(), () => this.sync(), { equals: comparer.shallow });
+  }
+
+  unmount(): void {
+    if (!this._mounted) return;
+    this._stopTracking?.();
+    this._stopTracking = undefined;
+    this._mounted = false;
+    this._host = undefined;
+    for (const entry of this._entries.values()) unmountBehavior(entry);
+  }
+
+  /**
+   * What the mounted reaction compares: the fields that can hold behaviors, plus the
+   * items of collections that hold them. Primitives read as undefined, so assigning
+   * one to an empty field doesn't trigger a sync.
+   */
+  private _fields(): unknown[] {
+    const fields: unknown[] = [];
+    for (const key of this._keys.get()) {
+      const value = (this._owner as any)[key];
+      fields.push(typeof value === 'object' ? value : undefined);
+      if (isCollection(value) && this._tracksItems(value)) fields.push(...itemsOf(value));
+    }
+    return fields;
+  }
+
+  private _tracksItems(collection: unknown[] | Map<unknown, unknown> | Set<unknown>): boolean {
+    let tracked = this._trackedCollections.get(collection);
+    if (tracked === undefined) {
+      // Checked without tracking, so a list without behaviors isn't observed item by item
+      tracked = untracked(() => {
+        const items = Array.from(itemsOf(collection));
+        return items.length === 0 || items.some(isBehavior);
+      });
+      this._trackedCollections.set(collection, tracked);
+    }
+    return tracked;
+  }
+
+  /** Release everything without unmount hooks (after a server render) */
+  dispose(): void {
+    this._stopTracking?.();
+    this._stopTracking = undefined;
+    this._mounted = false;
+    this._host = undefined;
+    for (const entry of this._entries.values()) disposeBehavior(entry);
   }
 }
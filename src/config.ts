@@ -11,7 +11,9 @@ export interface WatchOptions {
  */
 export interface MantleErrorContext {
   /** The lifecycle phase where the error occurred */
-  phase: 'onCreate' | 'onMount' | 'onUnmount' | 'watch';
+  phase:
+    | 'onCreate' | 'onMount' | 'onUnmount' | 'watch' | 'render'
+    | 'onFormReset' | 'onFormDisabled' | 'onFormStateRestore' | 'load' | 'persist' | 'beforeLeave';
   /** The View or Behavior class name */
   name: string;
   /** Whether the error came from a Behavior (true) or a View (false) */
@@ -24,14 +26,26 @@ export interface MantleErrorContext {
 export interface MantleConfig {
   /** Whether to automatically make View/Behavior instances observable (default: true) */
   autoObservable?: boolean;
-  /** Global error handler for lifecycle errors. Defaults to console.error. */
+  /** Global error handler for lifecycle and render errors. Defaults to console.error. */
   onError?: (error: unknown, context: MantleErrorContext) => void;
+  /** Hydrates server-rendered views. Pass `hydrate` from `@lit-labs/ssr-client`. */
+  hydrate?: (value: unknown, container: Element | DocumentFragment) => void;
+  /** When batched re-renders run: the next microtask (default) or animation frame */
+  scheduler?: 'microtask' | 'animationFrame';
+  /**
+   * Track mounted views, render counts and timings for inspection through
+   * `globalThis.__MANTLE_DEVTOOLS__` and the `mantle-lit/devtools` overlay (default: false)
+   */
+  devtools?: boolean;
 }
 
 // Internal config with required fields
 interface InternalConfig {
   autoObservable: boolean;
   onError?: (error: unknown, context: MantleErrorContext) => void;
+  hydrate?: (value: unknown, container: Element | DocumentFragment) => void;
+  scheduler?: 'microtask' | 'animationFrame';
+  devtools?: boolean;
 }
 
 export const globalConfig: InternalConfig = {
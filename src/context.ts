@@ -0,0 +1,147 @@
+import { action, makeObservable, observable } from 'mobx';
+
+/**
+ * A context key carrying its value type. Same shape as `@lit/context`'s Context,
+ * so keys created by either library work with both.
+ */
+export type Context<KeyType, ValueType> = KeyType & { __context__: ValueType };
+
+/** Value type of a Context */
+export type ContextType<C extends Context<unknown, unknown>> = C extends Context<unknown, infer V> ? V : never;
+
+/** Callback a provider calls with the current value. Subscribers also get an unsubscribe function. */
+export type ContextCallback<ValueType> = (value: ValueType, unsubscribe?: () => void) => void;
+
+/**
+ * Creates a typed context key. The key itself is returned, so use a Symbol or
+ * object for uniqueness.
+ *
+ * @example
+ * ```ts
+ * export const StoreContext = createContext<TodoStore>(Symbol('store'));
+ * ```
+ */
+export function createContext<ValueType, K = unknown>(key: K): Context<K, ValueType> {
+  return key as Context<K, ValueType>;
+}
+
+/**
+ * The community context protocol's `context-request` event.
+ * Dispatched by consumers; the nearest provider of the context answers it.
+ */
+export class ContextRequestEvent<C extends Context<unknown, unknown>> extends Event {
+  constructor(
+    readonly context: C,
+    readonly contextTarget: Element,
+    readonly callback: ContextCallback<ContextType<C>>,
+    readonly subscribe?: boolean
+  ) {
+    super('context-request', { bubbles: true, composed: true });
+  }
+}
+
+/**
+ * A context value requested by a View or Behavior. `value` is observable and
+ * updates when the provider's value changes.
+ */
+export class ContextConsumer<ValueType> {
+  value: ValueType | undefined = undefined;
+  private _unsubscribe?: () => void;
+
+  constructor(readonly context: Context<unknown, ValueType>) {
+    makeObservable<this, '_setValue'>(this, { value: observable.ref, _setValue: action });
+  }
+
+  /** @internal Request the value from the nearest provider above the host */
+  _connect(host: EventTarget): void {
+    host.dispatchEvent(new ContextRequestEvent(
+      this.context,
+      host as Element,
+      (value, unsubscribe) => {
+        // A provider may hand us a new subscription; drop the old one
+        if (this._unsubscribe !== unsubscribe) {
+          this._unsubscribe?.();
+          this._unsubscribe = unsubscribe;
+        }
+        this._setValue(value);
+      },
+      true
+    ));
+  }
+
+  /** @internal */
+  _disconnect(): void {
+    this._unsubscribe?.();
+    this._unsubscribe = undefined;
+  }
+
+  private _setValue(value: ValueType): void {
+    this.value = value;
+  }
+}
+
+/** @internal Context consumers owned by a View or Behavior, connected while it is mounted */
+export class ContextConsumerSet {
+  private _consumers: ContextConsumer<any>[] = [];
+  private _host?: EventTarget;
+
+  add<ValueType>(context: Context<unknown, ValueType>): ContextConsumer<ValueType> {
+    const consumer = new ContextConsumer(context);
+    this._consumers.push(consumer);
+    if (this._host) consumer._connect(this._host);
+    return consumer;
+  }
+
+  connect(host: EventTarget): void {
+    this._host = host;
+    for (const consumer of this._consumers) consumer._connect(host);
+  }
+
+  disconnect(): void {
+    this._host = undefined;
+    for (const consumer of this._consumers) consumer._disconnect();
+  }
+}
+
+/** @internal Answers context-request events on a View's host for the contexts it provides */
+export class ContextProviderSet {
+  // Subscribers map to their unsubscribe function, which must stay the same across calls
+  private _providers = new Map<unknown, { expr: () => unknown; subscribers: Map<ContextCallback<unknown>, () => void> }>();
+
+  constructor(private _host: EventTarget) {
+    _host.addEventListener('context-request', this._onRequest as EventListener);
+  }
+
+  /**
+   * Provide `expr()` under `context`. `watch` is the owner's watch method, used to
+   * push new values to subscribers with the owner's lifecycle.
+   */
+  add(
+    context: unknown,
+    expr: () => unknown,
+    watch: (expr: () => unknown, callback: (value: unknown) => void) => void
+  ): void {
+    const subscribers = new Map<ContextCallback<unknown>, () => void>();
+    this._providers.set(context, { expr, subscribers });
+    watch(expr, (value) => {
+      for (const [callback, unsubscribe] of subscribers) callback(value, unsubscribe);
+    });
+  }
+
+  private _onRequest = (e: ContextRequestEvent<Context<unknown, unknown>>): void => {
+    const provider = this._providers.get(e.context);
+    // Requests from the host itself go to providers further up
+    if (!provider || e.contextTarget === this._host) return;
+    e.stopPropagation();
+
+    const value = provider.expr();
+    if (e.subscribe) {
+      const { callback } = e;
+      const unsubscribe = () => provider.subscribers.delete(callback);
+      provider.subscribers.set(callback, unsubscribe);
+      callback(value, unsubscribe);
+    } else {
+      e.callback(value);
+    }
+  };
+}
@@ -0,0 +1,140 @@
+import { Reaction, runInAction } from 'mobx';
+import { globalConfig, reportError } from './config';
+import { scheduleRender, cancelRender, whenRendered, type RenderTarget } from './scheduler';
+import { registerView, unregisterView, recordRender } from './inspector';
+import type { Renderer, RenderRoot } from './renderer';
+import type { ViewModel, PropertyDeclaration } from './mantle';
+
+/** @internal */
+export interface ViewControllerOptions<VM extends ViewModel> {
+  autoObservable: boolean;
+  declaredProps: Map<string | symbol, PropertyDeclaration>;
+  renderer: Renderer;
+  template?: (vm: VM) => unknown;
+  fallback?: (error: unknown, vm: VM) => unknown;
+}
+
+/**
+ * @internal
+ * Runs a ViewModel's lifecycle, independent of how it is hosted: MobX init,
+ * onCreate, batched rendering through a Renderer, behaviors, onMount and unmount.
+ * createView() elements and mountView() containers both drive one of these.
+ */
+export class ViewController<VM extends ViewModel = ViewModel> implements RenderTarget {
+  created = false;
+  mounted = false;
+  private _root?: RenderRoot;
+  private _renderReaction?: Reaction;
+  private _firstRender?: (result: unknown) => void;
+  private _name: string;
+
+  constructor(readonly vm: VM, readonly host: HTMLElement, private _options: ViewControllerOptions<VM>) {
+    this._name = vm.constructor.name;
+    vm._host = host;
+  }
+
+  /**
+   * Request context values. The first call also inits MobX and calls onCreate,
+   * so props must be set before it.
+   */
+  connect(): void {
+    const firstConnect = !this.created;
+    if (firstConnect) {
+      this.created = true;
+      this.vm._initMobX(this._options.autoObservable, this._options.declaredProps);
+    }
+
+    // Request context values so they're available in onCreate and the first render
+    this.vm._connectContexts();
+
+    if (firstConnect) {
+      try { runInAction(() => this.vm.onCreate?.()); }
+      catch (e) { reportError(e, { phase: 'onCreate', name: this._name, isBehavior: false }); }
+    }
+  }
+
+  /**
+   * Render into `root`, then mount behaviors and call onMount. The first render is
+   * synchronous and later ones are batched. `firstRender` replaces the first
+   * render, e.g. to hydrate server-rendered markup.
+   */
+  mount(root: RenderRoot, firstRender?: (result: unknown) => void): void {
+    if (this.mounted) return;
+    this._root = root;
+    this._firstRender = firstRender;
+    if (globalConfig.devtools) registerView(this);
+    this._options.renderer.setConnected?.(root, true);
+    this._renderReaction = new Reaction(`${this._name}.render`, () => scheduleRender(this));
+    this._renderReaction.track(() => this._update());
+
+    this.mounted = true;
+    this.vm._mountBehaviors();
+    this.vm._callOnMount();
+  }
+
+  unmount(): void {
+    if (!this.mounted) return;
+    this.mounted = false;
+    this._renderReaction?.dispose();
+    this._renderReaction = undefined;
+    cancelRender(this);
+    // Unmount hooks run first, so refs still hold their elements there
+    this.vm._cleanup();
+    if (this._root) this._options.renderer.setConnected?.(this._root, false);
+    unregisterView(this);
+  }
+
+  /** Stop watchers and context subscriptions without unmount hooks (after a server render) */
+  dispose(): void {
+    this.vm._dispose();
+  }
+
+  /** Resolves when pending renders have run */
+  get updateComplete(): Promise<boolean> {
+    return whenRendered(this);
+  }
+
+  /** @internal Called by the render scheduler */
+  _performRender(): void {
+    this._renderReaction?.track(() => this._update());
+  }
+
+  /**
+   * Errors are reported and replaced by the fallback, or by nothing to keep the
+   * previous DOM. The render reaction still tracks what was read before the throw,
+   * so a change to those observables retries.
+   */
+  renderTemplate(): unknown {
+    const { template } = this._options;
+    try {
+      return typeof this.vm.render === 'function' ? this.vm.render() : template!(this.vm);
+    } catch (e) {
+      reportError(e, { phase: 'render', name: this._name, isBehavior: false });
+      return this._renderFallback(e);
+    }
+  }
+
+  private _renderFallback(error: unknown): unknown {
+    try {
+      if (typeof this.vm.renderError === 'function') return this.vm.renderError(error);
+      return this._options.fallback?.(error, this.vm) ?? null;
+    } catch (e) {
+      reportError(e, { phase: 'render', name: this._name, isBehavior: false });
+      return null;
+    }
+  }
+
+  private _update(): void {
+    const start = globalConfig.devtools ? performance.now() : 0;
+    const result = this.renderTemplate();
+    if (result == null || !this._root) return;
+    const firstRender = this._firstRender;
+    if (firstRender) {
+      this._firstRender = undefined;
+      firstRender(result);
+    } else {
+      this._options.renderer.render(result, this._root);
+    }
+    if (globalConfig.devtools) recordRender(this, performance.now() - start);
+  }
+}
@@ -0,0 +1,309 @@
+import type { TemplateResult } from 'lit-html';
+import { View, createView, configure, html, css, nothing } from './mantle';
+import { devtoolsHook, type DevtoolsViewNode, type DevtoolsBehaviorNode } from './inspector';
+
+export type { DevtoolsHook, DevtoolsViewNode, DevtoolsBehaviorNode, DevtoolsWatchers } from './inspector';
+
+type Path = (string | number)[];
+
+/**
+ * In-page inspector for mounted views: their props, state, computeds, behaviors,
+ * watchers and render counts. Primitive state can be edited in place.
+ */
+class DevtoolsView extends View {
+  static styles = css`
+    :host {
+      position: fixed;
+      right: 12px;
+      bottom: 12px;
+      z-index: 2147483647;
+      font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace;
+      color: #e2e8f0;
+    }
+
+    .toggle {
+      padding: 4px 10px;
+      border: none;
+      border-radius: 999px;
+      background: #4f46e5;
+      color: white;
+      font: inherit;
+      cursor: pointer;
+    }
+
+    .panel {
+      display: grid;
+      grid-template-columns: 220px 1fr;
+      grid-template-rows: auto 1fr;
+      width: min(720px, calc(100vw - 24px));
+      height: min(420px, calc(100vh - 24px));
+      background: #0f172a;
+      border: 1px solid #334155;
+      border-radius: 8px;
+      box-shadow: 0 10px 30px rgba(0, 0, 0, 0.4);
+      overflow: hidden;
+    }
+
+    header {
+      grid-column: 1 / -1;
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 6px 10px;
+      border-bottom: 1px solid #334155;
+      background: #1e293b;
+    }
+
+    header button {
+      border: none;
+      background: none;
+      color: inherit;
+      font: inherit;
+      cursor: pointer;
+    }
+
+    .tree {
+      overflow: auto;
+      border-right: 1px solid #334155;
+    }
+
+    .row {
+      display: flex;
+      justify-content: space-between;
+      width: 100%;
+      padding: 3px 8px;
+      border: none;
+      background: none;
+      color: inherit;
+      font: inherit;
+      text-align: left;
+      cursor: pointer;
+    }
+
+    .row:hover, .row.selected {
+      background: #1e293b;
+    }
+
+    .muted {
+      color: #64748b;
+    }
+
+    .details {
+      overflow: auto;
+      padding: 8px 12px;
+    }
+
+    h3 {
+      margin: 10px 0 4px;
+      font-size: 11px;
+      text-transform: uppercase;
+      color: #94a3b8;
+    }
+
+    .entry {
+      display: flex;
+      gap: 8px;
+      align-items: baseline;
+      padding: 1px 0;
+    }
+
+    .key {
+      color: #a5b4fc;
+    }
+
+    .behavior {
+      margin: 4px 0 4px 4px;
+      padding-left: 8px;
+      border-left: 2px solid #334155;
+    }
+
+    input {
+      background: #1e293b;
+      border: 1px solid #334155;
+      border-radius: 3px;
+      color: inherit;
+      font: inherit;
+    }
+
+    code {
+      white-space: pre-wrap;
+      word-break: break-all;
+    }
+  `;
+
+  open = true;
+  tree: DevtoolsViewNode[] = [];
+  selectedId: number | null = null;
+
+  onCreate() {
+    // getTree() reads every inspected observable, so this runs whenever one changes
+    this.watch(() => devtoolsHook.getTree(), (tree) => { this.tree = tree; }, { fireImmediately: true });
+  }
+
+  get rows(): { node: DevtoolsViewNode; depth: number }[] {
+    const rows: { node: DevtoolsViewNode; depth: number }[] = [];
+    const visit = (nodes: DevtoolsViewNode[], depth: number) => {
+      for (const node of nodes) {
+        rows.push({ node, depth });
+        visit(node.children, depth + 1);
+      }
+    };
+    visit(this.tree, 0);
+    return rows;
+  }
+
+  get selected(): DevtoolsViewNode | undefined {
+    return this.rows.find((row) => row.node.id === this.selectedId)?.node;
+  }
+
+  toggle() {
+    this.open = !this.open;
+  }
+
+  select(id: number) {
+    this.selectedId = id;
+  }
+
+  /** The live value at `path`, to decide whether it can be edited */
+  liveValue(path: Path): unknown {
+    let value: any = this.selectedId === null ? undefined : devtoolsHook.getViewModel(this.selectedId);
+    for (const key of path) value = value?.[key];
+    return value;
+  }
+
+  edit(path: Path, input: HTMLInputElement) {
+    if (this.selectedId === null) return;
+    const current = this.liveValue(path);
+    const value = typeof current === 'boolean' ? input.checked
+      : typeof current === 'number' ? Number(input.value)
+      : input.value;
+    devtoolsHook.setState(this.selectedId, path, value);
+  }
+
+  render() {
+    if (!this.open) {
+      return html`<button class="toggle" @click=${this.toggle}>mantle</button>`;
+    }
+
+    const selected = this.selected;
+    return html`
+      <div class="panel">
+        <header>
+          <span>mantle devtools <span class="muted">${this.rows.length} views</span></span>
+          <button title="Close" @click=${this.toggle}>✕</button>
+        </header>
+        <div class="tree">
+          ${this.rows.map(({ node, depth }) => html`
+            <button
+              class="row ${node.id === this.selectedId ? 'selected' : ''}"
+              style="padding-left: ${8 + depth * 12}px"
+              @click=${() => this.select(node.id)}
+            >
+              <span>${node.name}</span>
+              <span class="muted">${node.renders.count}</span>
+            </button>
+          `)}
+        </div>
+        <div class="details">
+          ${selected ? renderView(this, selected) : html`<p class="muted">Select a view</p>`}
+        </div>
+      </div>
+    `;
+  }
+}
+
+// Render helpers are plain functions: ViewModel methods become actions, which
+// wouldn't let render() track what they read
+
+function renderView(vm: DevtoolsView, node: DevtoolsViewNode): TemplateResult {
+  const { count, lastMs, totalMs } = node.renders;
+  return html`
+    <div><strong>${node.name}</strong> <span class="muted">&lt;${node.tag}&gt;</span></div>
+    <div class="muted">
+      ${count} renders · last ${lastMs.toFixed(2)}ms · total ${totalMs.toFixed(1)}ms ·
+      ${node.watchers.active}/${node.watchers.total} watchers active
+    </div>
+    ${renderSection(vm, 'Props', node.props)}
+    ${renderSection(vm, 'State', node.state, [])}
+    ${renderSection(vm, 'Computed', node.computeds)}
+    ${node.behaviors.length ? html`
+      <h3>Behaviors</h3>
+      ${node.behaviors.map((behavior) => renderBehavior(vm, behavior, []))}
+    ` : nothing}
+  `;
+}
+
+function renderBehavior(vm: DevtoolsView, behavior: DevtoolsBehaviorNode, ownerPath?: Path): TemplateResult {
+  // Behaviors without a field of their own (in arrays or maps) are shown read-only
+  const path = ownerPath && behavior.key ? [...ownerPath, behavior.key] : undefined;
+  return html`
+    <div class="behavior">
+      <div>
+        <strong>${behavior.name}</strong>
+        ${behavior.key ? html`<span class="muted">.${behavior.key}</span>` : nothing}
+        <span class="muted">${behavior.watchers.active}/${behavior.watchers.total} watchers</span>
+      </div>
+      ${renderEntries(vm, behavior.state, path)}
+      ${renderEntries(vm, behavior.computeds)}
+      ${behavior.behaviors.map((child) => renderBehavior(vm, child, path))}
+    </div>
+  `;
+}
+
+/** `editPath` makes primitive values editable, relative to the ViewModel */
+function renderSection(vm: DevtoolsView, title: string, values: Record<string, unknown>, editPath?: Path) {
+  if (Object.keys(values).length === 0) return nothing;
+  return html`<h3>${title}</h3>${renderEntries(vm, values, editPath)}`;
+}
+
+function renderEntries(vm: DevtoolsView, values: Record<string, unknown>, editPath?: Path): TemplateResult[] {
+  return Object.entries(values).map(([key, value]) => html`
+    <div class="entry">
+      <span class="key">${key}</span>
+      ${editPath ? renderEditor(vm, [...editPath, key], value) : renderValue(value)}
+    </div>
+  `);
+}
+
+function renderEditor(vm: DevtoolsView, path: Path, value: unknown): TemplateResult {
+  const live = vm.liveValue(path);
+  const onChange = (e: Event) => vm.edit(path, e.target as HTMLInputElement);
+  switch (typeof live) {
+    case 'boolean':
+      return html`<input type="checkbox" .checked=${live} @change=${onChange}>`;
+    case 'number':
+      return html`<input type="number" .value=${String(live)} @change=${onChange}>`;
+    case 'string':
+      return html`<input .value=${live} @change=${onChange}>`;
+    default:
+      return renderValue(value);
+  }
+}
+
+function renderValue(value: unknown): TemplateResult {
+  return html`<code>${typeof value === 'string' ? value : JSON.stringify(value)}</code>`;
+}
+
+export const MantleDevtools = createView(DevtoolsView, { tag: 'mantle-devtools' });
+
+/**
+ * Turn on devtools tracking and add the inspector overlay to the page. Views that
+ * mounted before devtools were enabled aren't tracked, so call it early, before
+ * mounting your app.
+ *
+ * @example
+ * ```ts
+ * if (import.meta.env.DEV) {
+ *   const { openDevtools } = await import('mantle-lit/devtools');
+ *   openDevtools();
+ * }
+ * ```
+ */
+export function openDevtools(container: Element = document.body): HTMLElement {
+  configure({ devtools: true });
+  const existing = document.querySelector('mantle-devtools');
+  if (existing) return existing as HTMLElement;
+  const overlay = document.createElement('mantle-devtools');
+  container.appendChild(overlay);
+  return overlay;
+}
@@ -0,0 +1,41 @@
+/** Options for emit(). Defaults match `new CustomEvent()`. */
+export interface EmitOptions {
+  /** Bubble up through ancestors (default: false) */
+  bubbles?: boolean;
+  /** Cross shadow DOM boundaries (default: false) */
+  composed?: boolean;
+  /** Allow listeners to call preventDefault() (default: false) */
+  cancelable?: boolean;
+}
+
+/**
+ * Maps a View or Behavior's `emits` declaration to CustomEvent types.
+ * Use it to register events on HTMLElementEventMap for typed listeners and lit-plugin checks.
+ *
+ * @example
+ * ```ts
+ * declare global {
+ *   interface HTMLElementEventMap extends EventsOf<TaskListVM> {}
+ * }
+ * ```
+ */
+export type EventsOf<T extends { emits: object }> = {
+  [K in keyof T['emits']]: CustomEvent<T['emits'][K]>;
+};
+
+/** @internal Dispatch a CustomEvent from the host, warning in dev if there is none yet */
+export function emitEvent(
+  host: EventTarget | undefined,
+  source: string,
+  type: string,
+  detail: unknown,
+  options?: EmitOptions
+): boolean {
+  if (!host) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn(`[mantle-lit] ${source}.emit('${type}') called before it was attached to an element.`);
+    }
+    return false;
+  }
+  return host.dispatchEvent(new CustomEvent(type, { detail, ...options }));
+}
@@ -0,0 +1,90 @@
+import { action, makeObservable, observable } from 'mobx';
+
+/** A value a form control submits: a string, File or FormData (for several entries) */
+export type FormValue = File | string | FormData | null;
+
+/**
+ * Form participation for a View created with `formAssociated: true`.
+ * Wraps the element's ElementInternals. `disabled` is observable and follows
+ * the element's (or an ancestor fieldset's) disabled state.
+ *
+ * @example
+ * ```ts
+ * class RatingInput extends View {
+ *   @property({ type: Number }) value = 0;
+ *
+ *   onCreate() {
+ *     this.watch(() => this.value, (value) => {
+ *       this.formControl.setValue(String(value));
+ *       this.formControl.setCustomValidity(value > 0 ? '' : 'Pick a rating');
+ *     }, { fireImmediately: true });
+ *   }
+ * }
+ * createView(RatingInput, { tag: 'x-rating', formAssociated: true });
+ * ```
+ */
+export class FormControl {
+  /** Whether the control is disabled, directly or through a fieldset */
+  disabled = false;
+
+  constructor(private _internals: ElementInternals) {
+    makeObservable(this, { disabled: observable, _setDisabled: action });
+  }
+
+  /** The form the element belongs to, if any */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  /** Labels pointing at the element */
+  get labels(): NodeList {
+    return this._internals.labels;
+  }
+
+  get validity(): ValidityState {
+    return this._internals.validity;
+  }
+
+  get validationMessage(): string {
+    return this._internals.validationMessage;
+  }
+
+  get willValidate(): boolean {
+    return this._internals.willValidate;
+  }
+
+  /**
+   * Set the value submitted with the form. `state` is what the browser hands back
+   * to onFormStateRestore() (defaults to `value`).
+   */
+  setValue(value: FormValue, state?: FormValue): void {
+    this._internals.setFormValue(value, state);
+  }
+
+  /**
+   * Set validity flags. A message is required when any flag is true.
+   * `anchor` is the element the browser points at when reporting (e.g. the inner input).
+   */
+  setValidity(flags: ValidityStateFlags, message?: string, anchor?: HTMLElement): void {
+    this._internals.setValidity(flags, message, anchor);
+  }
+
+  /** Mark the control invalid with `message`, or valid with an empty string */
+  setCustomValidity(message: string, anchor?: HTMLElement): void {
+    if (message) this._internals.setValidity({ customError: true }, message, anchor);
+    else this._internals.setValidity({});
+  }
+
+  checkValidity(): boolean {
+    return this._internals.checkValidity();
+  }
+
+  reportValidity(): boolean {
+    return this._internals.reportValidity();
+  }
+
+  /** @internal */
+  _setDisabled(disabled: boolean): void {
+    this.disabled = disabled;
+  }
+}
@@ -0,0 +1,101 @@
+import type { Snapshot } from './snapshot';
+
+/** @internal A createView() element that can switch to a newer definition */
+export interface HotElement extends HTMLElement {
+  _hotReplace(next: new () => HotElement): void;
+}
+
+let enabled = false;
+
+// Element class each createView() tag was defined as, per registry
+const definitions = new WeakMap<CustomElementRegistry, Map<string, CustomElementConstructor>>();
+
+// Every version of a hot-updated element class → the latest version
+const latest = new WeakMap<Function, { current: Function }>();
+
+/**
+ * Let createView() update the live elements of a view whose module ran again,
+ * instead of warning that the tag is taken. Called by the `mantle-lit/vite`
+ * plugin; call it yourself in a module that accepts its own hot updates.
+ *
+ * @example
+ * ```ts
+ * if (import.meta.hot) {
+ *   enableHotReplacement();
+ *   import.meta.hot.accept();
+ * }
+ * ```
+ */
+export function enableHotReplacement(): void {
+  enabled = true;
+}
+
+/** @internal */
+export function isHotReplacementEnabled(): boolean {
+  return enabled;
+}
+
+/** @internal Remember what createView() defined `tag` as, to find it after a hot update */
+export function rememberDefinition(registry: CustomElementRegistry, tag: string, ctor: CustomElementConstructor): void {
+  let tags = definitions.get(registry);
+  if (!tags) definitions.set(registry, (tags = new Map()));
+  tags.set(tag, ctor);
+}
+
+/** @internal The class an earlier createView() call defined `tag` as */
+export function previousDefinition(registry: CustomElementRegistry, tag: string): CustomElementConstructor | undefined {
+  return definitions.get(registry)?.get(tag);
+}
+
+/** @internal The newest version of an element class, or the class itself */
+export function latestDefinition<C extends Function>(ctor: C): C {
+  return (latest.get(ctor)?.current as C | undefined) ?? ctor;
+}
+
+/**
+ * @internal
+ * Make `next` the definition behind `previous`: elements created from now on use
+ * it, and existing ones switch to it.
+ */
+export function hotReplace(previous: CustomElementConstructor, next: new () => HotElement, tag: string): void {
+  const record = latest.get(previous) ?? { current: previous };
+  record.current = next;
+  latest.set(previous, record);
+  latest.set(next, record);
+
+  // Disconnected elements switch when they connect again
+  if (typeof document === 'undefined') return;
+  for (const element of elementsByTag(document, tag)) {
+    if (latestDefinition(element.constructor) === next && element.constructor !== next) {
+      (element as HotElement)._hotReplace(next);
+    }
+  }
+}
+
+/** Elements named `tag` in `root` and the open shadow roots below it */
+function elementsByTag(root: Document | ShadowRoot, tag: string): Element[] {
+  const found: Element[] = [];
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    if (element.localName === tag) found.push(element);
+    if (element.shadowRoot) found.push(...elementsByTag(element.shadowRoot, tag));
+  }
+  return found;
+}
+
+/**
+ * @internal
+ * Snapshot to restore after a hot update: keys whose value still has the same kind
+ * (string, number, array...) as in the new ViewModel's initial snapshot.
+ */
+export function sameShapeState(state: Snapshot, initial: Snapshot): Snapshot {
+  const kept: Snapshot = {};
+  for (const [key, value] of Object.entries(state)) {
+    if (key in initial && kindOf(value) === kindOf(initial[key])) kept[key] = value;
+  }
+  return kept;
+}
+
+function kindOf(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,35 @@
+/** Attribute marking the script that carries a server-rendered view's props and state */
+export const HYDRATE_ATTRIBUTE = 'data-mantle-hydrate';
+
+/** Serialized props and ViewModel state of a server-rendered view */
+export interface HydrationData {
+  props: Record<string, unknown>;
+  state: Record<string, unknown>;
+}
+
+/** JSON-safe values: primitives, arrays and plain objects */
+export function isPlainData(value: unknown): boolean {
+  if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return true;
+  if (Array.isArray(value)) return true;
+  if (typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** The hydration script to embed in server-rendered markup */
+export function hydrationScript(data: HydrationData): string {
+  // Escape `<` so the JSON can't close the script element
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  return `<script type="application/json" ${HYDRATE_ATTRIBUTE}>${json}</script>`;
+}
+
+/** Finds and removes the hydration script among the render root's children */
+export function takeHydrationData(root: Element | ShadowRoot): HydrationData | undefined {
+  for (const child of Array.from(root.children)) {
+    if (child.localName === 'script' && child.hasAttribute(HYDRATE_ATTRIBUTE)) {
+      child.remove();
+      return JSON.parse(child.textContent!);
+    }
+  }
+  return undefined;
+}
@@ -10,6 +10,40 @@ export {
   
   // Helpers
   mount,
+  unmountAll,
+  enableHotReplacement,
+  defineLazy,
+  
+  // Context
+  createContext,
+  ContextRequestEvent,
+  
+  // Refs
+  createRef,
+  ref,
+  Ref,
+  
+  // Forms
+  FormControl,
+  
+  // Resources
+  withResource,
+  ResourceBehavior,
+  
+  // Persistence
+  withPersisted,
+  PersistedBehavior,
+  memoryStorage,
+  indexedDBStorage,
+  
+  // Slots
+  withSlots,
+  SlotsBehavior,
+  SlotContent,
+  
+  // Snapshots
+  getSnapshot,
+  applySnapshot,
   
   // Decorators
   observable,
@@ -33,8 +67,36 @@ export {
   type Props,
   type PropType,
   type PropertyDeclaration,
+  type ViewModelClass,
+  type ViewProps,
+  type MountHandle,
   type CSSResultGroup,
   type CreateViewOptions,
+  type ViewElementClass,
+  type ScopedElements,
+  type TagConflictStrategy,
+  type LazyLoader,
+  type LazyOptions,
+  type EmitOptions,
+  type EventsOf,
+  type Context,
+  type ContextType,
+  type ContextCallback,
+  type ContextConsumer,
+  type FormValue,
+  type ResourceStatus,
+  type ResourceLoader,
+  type ResourceOptions,
+  type PersistStorage,
+  type PersistOptions,
+  type Snapshot,
+  type Serializers,
+  type FieldSerializer,
 } from './mantle';
 
 export type { MantleConfig, MantleErrorContext, WatchOptions } from './mantle';
+export type { DevtoolsHook, DevtoolsViewNode, DevtoolsBehaviorNode, DevtoolsWatchers } from './inspector';
+
+// Rendering backends
+export { mountView, type MountViewOptions, type ViewHandle } from './vanilla';
+export { litRenderer, domRenderer, type Renderer, type RenderRoot } from './renderer';
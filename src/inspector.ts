@@ -0,0 +1,263 @@
+import { observable, runInAction, isObservableProp, isComputedProp, isObservableMap, isObservableSet } from 'mobx';
+import { isBehavior, type BehaviorSet } from './behavior';
+import type { WatcherSet } from './watch';
+
+/** Watchers of a View or Behavior */
+export interface DevtoolsWatchers {
+  total: number;
+  /** Running now. The rest are suspended until the next mount. */
+  active: number;
+}
+
+/** A Behavior in the devtools tree */
+export interface DevtoolsBehaviorNode {
+  name: string;
+  /** Field holding it on its owner, for setState() paths */
+  key: string;
+  state: Record<string, unknown>;
+  computeds: Record<string, unknown>;
+  watchers: DevtoolsWatchers;
+  behaviors: DevtoolsBehaviorNode[];
+}
+
+/** A mounted View in the devtools tree. Values are serialized, so it can be sent anywhere. */
+export interface DevtoolsViewNode {
+  id: number;
+  /** ViewModel class name */
+  name: string;
+  /** Host element tag */
+  tag: string;
+  props: Record<string, unknown>;
+  state: Record<string, unknown>;
+  computeds: Record<string, unknown>;
+  behaviors: DevtoolsBehaviorNode[];
+  watchers: DevtoolsWatchers;
+  renders: { count: number; lastMs: number; totalMs: number };
+  /** Views rendered inside this one */
+  children: DevtoolsViewNode[];
+}
+
+/**
+ * Set on `globalThis.__MANTLE_DEVTOOLS__` by `configure({ devtools: true })`, for
+ * the devtools overlay, browser extensions and the console.
+ */
+export interface DevtoolsHook {
+  /** Mounted views, nested by DOM position. Reactive when read in a MobX reaction. */
+  getTree(): DevtoolsViewNode[];
+  /** Live ViewModel of a view, for the console */
+  getViewModel(id: number): object | undefined;
+  /**
+   * Set an observable value on a view, by field path from its ViewModel: `['count']`,
+   * `['todos', 0, 'done']`, or through a behavior field: `['size', 'width']`.
+   * Returns false if the path doesn't resolve.
+   */
+  setState(id: number, path: (string | number)[], value: unknown): boolean;
+  /** Called after views mount, unmount or render. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+}
+
+/** @internal What the registry needs from a ViewController */
+export interface InspectedView {
+  readonly vm: object;
+  readonly host: HTMLElement;
+}
+
+interface ViewRecord {
+  id: number;
+  view: InspectedView;
+  renders: { count: number; lastMs: number; totalMs: number };
+}
+
+// The devtools overlay is a mantle view too, but it shouldn't inspect itself
+const IGNORED_TAG = 'mantle-devtools';
+// Nesting and size limits for serialized values
+const MAX_DEPTH = 4;
+const MAX_ITEMS = 100;
+
+let nextId = 1;
+const records = observable.map<number, ViewRecord>(undefined, { deep: false });
+const recordsByView = new WeakMap<InspectedView, ViewRecord>();
+const listeners = new Set<() => void>();
+let notifyQueued = false;
+
+/** @internal Add a view that mounted. Installs the global hook on first use. */
+export function registerView(view: InspectedView): void {
+  if (view.host.localName === IGNORED_TAG || recordsByView.has(view)) return;
+  installHook();
+  const record: ViewRecord = {
+    id: nextId++,
+    view,
+    renders: observable({ count: 0, lastMs: 0, totalMs: 0 }),
+  };
+  recordsByView.set(view, record);
+  runInAction(() => records.set(record.id, record));
+  notify();
+}
+
+/** @internal Remove a view that unmounted */
+export function unregisterView(view: InspectedView): void {
+  const record = recordsByView.get(view);
+  if (!record) return;
+  recordsByView.delete(view);
+  runInAction(() => records.delete(record.id));
+  notify();
+}
+
+/** @internal Count a render and its duration */
+export function recordRender(view: InspectedView, ms: number): void {
+  const record = recordsByView.get(view);
+  if (!record) return;
+  runInAction(() => {
+    record.renders.count++;
+    record.renders.lastMs = ms;
+    record.renders.totalMs += ms;
+  });
+  notify();
+}
+
+/** @internal Also the overlay's source of data */
+export const devtoolsHook: DevtoolsHook = {
+  getTree,
+  getViewModel: (id) => records.get(id)?.view.vm,
+  setState,
+  subscribe(listener) {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+};
+
+function installHook(): void {
+  (globalThis as { __MANTLE_DEVTOOLS__?: DevtoolsHook }).__MANTLE_DEVTOOLS__ ??= devtoolsHook;
+}
+
+// Listeners run once per microtask, however many views changed
+function notify(): void {
+  if (notifyQueued || listeners.size === 0) return;
+  notifyQueued = true;
+  queueMicrotask(() => {
+    notifyQueued = false;
+    for (const listener of listeners) listener();
+  });
+}
+
+function getTree(): DevtoolsViewNode[] {
+  const nodes = new Map<Node, DevtoolsViewNode>();
+  for (const record of records.values()) nodes.set(record.view.host, viewNode(record));
+
+  const roots: DevtoolsViewNode[] = [];
+  for (const record of records.values()) {
+    const node = nodes.get(record.view.host)!;
+    const parent = closestView(record.view.host, nodes);
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+/** Nearest ancestor that hosts a view, crossing shadow roots */
+function closestView(host: Node, nodes: Map<Node, DevtoolsViewNode>): DevtoolsViewNode | undefined {
+  for (let n = host.parentNode ?? (host as unknown as ShadowRoot).host; n; n = n.parentNode ?? (n as ShadowRoot).host ?? null) {
+    const node = nodes.get(n);
+    if (node) return node;
+  }
+  return undefined;
+}
+
+function viewNode({ id, view, renders }: ViewRecord): DevtoolsViewNode {
+  const vm = view.vm as any;
+  const props: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(vm.props ?? {})) props[key] = serialize(value);
+  // @property() values are behind enumerable prototype accessors (class members aren't enumerable)
+  for (const key of Object.keys(Object.getPrototypeOf(vm))) {
+    if (!(key in props) && !isComputedProp(vm, key)) props[key] = serialize(vm[key]);
+  }
+
+  return {
+    id,
+    name: vm.constructor.name,
+    tag: view.host.localName,
+    props,
+    ...inspectObject(vm),
+    renders: { ...renders },
+    children: [],
+  };
+}
+
+function behaviorNode(owner: object, instance: any, children: BehaviorSet): DevtoolsBehaviorNode {
+  return {
+    name: instance.constructor.name,
+    key: Object.keys(owner).find((key) => (owner as any)[key] === instance) ?? '',
+    ...inspectObject(instance, children),
+  };
+}
+
+/** State, computeds, behaviors and watchers of a ViewModel or Behavior */
+function inspectObject(target: any, behaviorSet: BehaviorSet = target._behaviors) {
+  const state: Record<string, unknown> = {};
+  for (const key of Object.keys(target)) {
+    if (key.startsWith('_') || key === 'props' || !isObservableProp(target, key) || isComputedProp(target, key)) continue;
+    if (isBehavior(target[key])) continue;
+    state[key] = serialize(target[key]);
+  }
+
+  const computeds: Record<string, unknown> = {};
+  for (let proto = Object.getPrototypeOf(target); proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+    for (const key of Object.keys(Object.getOwnPropertyDescriptors(proto))) {
+      if (key in computeds || !isComputedProp(target, key)) continue;
+      try { computeds[key] = serialize(target[key]); }
+      catch (e) { computeds[key] = `[Error: ${(e as Error)?.message ?? e}]`; }
+    }
+  }
+
+  const watchers = (target._watchers as WatcherSet | undefined)?.stats() ?? { total: 0, active: 0 };
+  const behaviors = behaviorSet?.entries().map((entry) => behaviorNode(target, entry.instance, entry.children)) ?? [];
+  return { state, computeds, behaviors, watchers };
+}
+
+/** A JSON-safe copy of `value` for display, with functions, nodes and class instances described */
+function serialize(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (value === null || typeof value !== 'object') {
+    if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+    if (typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+    return value === undefined ? '[undefined]' : value;
+  }
+  if (seen.has(value)) return '[Circular]';
+  if (typeof Node !== 'undefined' && value instanceof Node) return `[${value.nodeName.toLowerCase()}]`;
+  if (isBehavior(value)) return `[${value.constructor.name}]`;
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? `[Array(${value.length})]` : '[Object]';
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.slice(0, MAX_ITEMS).map((item) => serialize(item, depth + 1, seen));
+  if (value instanceof Map || isObservableMap(value)) {
+    const entries = Array.from((value as Map<unknown, unknown>).entries()).slice(0, MAX_ITEMS);
+    return Object.fromEntries(entries.map(([k, v]) => [String(k), serialize(v, depth + 1, seen)]));
+  }
+  if (value instanceof Set || isObservableSet(value)) {
+    return Array.from(value as Set<unknown>).slice(0, MAX_ITEMS).map((item) => serialize(item, depth + 1, seen));
+  }
+  if (value instanceof Date) return value.toISOString();
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value).slice(0, MAX_ITEMS)) {
+    if (!key.startsWith('_')) result[key] = serialize((value as any)[key], depth + 1, seen);
+  }
+  return result;
+}
+
+function setState(id: number, path: (string | number)[], value: unknown): boolean {
+  const record = records.get(id);
+  if (!record || path.length === 0) return false;
+
+  let target: any = record.view.vm;
+  for (const key of path.slice(0, -1)) {
+    target = target?.[key];
+    if (target === null || typeof target !== 'object') return false;
+  }
+
+  const key = path[path.length - 1];
+  if (!(key in target)) return false;
+  runInAction(() => {
+    if (isObservableMap(target)) target.set(key, value);
+    else target[key] = value;
+  });
+  return true;
+}
@@ -0,0 +1,156 @@
+import { render, type TemplateResult } from 'lit-html';
+import { reportError } from './config';
+
+/** Imports the module that defines a tag, or returns its element class */
+export type LazyLoader = () => Promise<unknown>;
+
+export interface LazyOptions {
+  /** Shown inside empty elements while their view loads */
+  placeholder?: TemplateResult;
+}
+
+interface LazyEntry {
+  loader: LazyLoader;
+  placeholder?: TemplateResult;
+  loading?: Promise<void>;
+  /** Placeholder nodes to remove once the tag is defined */
+  placeholders: Node[];
+}
+
+// Tags waiting for their first appearance (or their loader)
+const pending = new Map<string, LazyEntry>();
+// Observers on the document and the open shadow roots found in it
+const observers = new Map<Document | ShadowRoot, MutationObserver>();
+
+/**
+ * Define tags on demand: each tag's loader runs the first time the tag appears
+ * in the document or an open shadow root, so its view can be left out of the
+ * main bundle. mount() loads lazy tags right away.
+ *
+ * @example
+ * ```ts
+ * defineLazy({
+ *   'todo-app': () => import('./Todo'),
+ *   'user-card': () => import('./UserCard').then((m) => m.UserCardElement),
+ * }, { placeholder: html`<span class="spinner"></span>` });
+ * ```
+ */
+export function defineLazy(loaders: Record<string, LazyLoader>, options?: LazyOptions): void {
+  for (const [tag, loader] of Object.entries(loaders)) {
+    if (pending.has(tag) || (typeof customElements !== 'undefined' && customElements.get(tag))) continue;
+    pending.set(tag, { loader, placeholder: options?.placeholder, placeholders: [] });
+  }
+  if (typeof document === 'undefined' || typeof MutationObserver === 'undefined') return;
+  observe(document);
+  scan(document);
+}
+
+/** @internal Whether `tag` was passed to defineLazy() and isn't defined yet */
+export function isLazy(tag: string): boolean {
+  return pending.has(tag);
+}
+
+/**
+ * @internal
+ * Run the loader for `tag` (once) and resolve when it's defined. Loader errors
+ * are reported, and the next appearance of the tag tries again.
+ */
+export function loadLazy(tag: string): Promise<void> {
+  const entry = pending.get(tag);
+  if (!entry) return customElements.whenDefined(tag).then(() => undefined);
+
+  entry.loading ??= entry.loader().then(
+    (result) => {
+      if (!customElements.get(tag)) {
+        const ctor = elementClassOf(result);
+        if (ctor) {
+          customElements.define(tag, ctor);
+        } else if (process.env.NODE_ENV !== 'production') {
+          console.warn(`[mantle-lit] defineLazy: the loader for <${tag}> didn't define it.`);
+        }
+      }
+      pending.delete(tag);
+      for (const node of entry.placeholders) (node as ChildNode).remove();
+      scanUpgraded(tag);
+      if (pending.size === 0) disconnect();
+    },
+    (error) => {
+      entry.loading = undefined;
+      reportError(error, { phase: 'load', name: `<${tag}>`, isBehavior: false });
+      throw error;
+    }
+  );
+  return entry.loading;
+}
+
+/** The element class a loader resolved to: itself, or a module's default export */
+function elementClassOf(result: unknown): CustomElementConstructor | undefined {
+  if (typeof result === 'function') return result as CustomElementConstructor;
+  const fallback = (result as { default?: unknown } | null)?.default;
+  return typeof fallback === 'function' ? fallback as CustomElementConstructor : undefined;
+}
+
+function observe(root: Document | ShadowRoot): void {
+  if (observers.has(root)) return;
+  const observer = new MutationObserver((mutations) => {
+    for (const mutation of mutations) {
+      for (const node of Array.from(mutation.addedNodes)) {
+        if (node.nodeType === Node.ELEMENT_NODE) scan(node as Element);
+      }
+    }
+  });
+  observer.observe(root, { childList: true, subtree: true });
+  observers.set(root, observer);
+}
+
+function disconnect(): void {
+  for (const observer of observers.values()) observer.disconnect();
+  observers.clear();
+}
+
+/**
+ * Elements of a tag that was just defined upgraded and rendered shadow roots that
+ * weren't there when they were scanned. Scan those (again once the first render
+ * is complete), so lazy tags inside a lazy view load too.
+ */
+function scanUpgraded(tag: string): void {
+  for (const root of Array.from(observers.keys())) {
+    for (const element of Array.from(root.querySelectorAll(tag))) {
+      const visitShadowRoot = () => {
+        if (pending.size === 0 || !element.shadowRoot) return;
+        observe(element.shadowRoot);
+        scan(element.shadowRoot);
+      };
+      visitShadowRoot();
+      (element as { updateComplete?: Promise<unknown> }).updateComplete?.then(visitShadowRoot);
+    }
+  }
+}
+
+/** Load the lazy tags in `root`, and watch the open shadow roots below it */
+function scan(root: Document | ShadowRoot | Element): void {
+  if (pending.size === 0) return;
+  if (root.nodeType === Node.ELEMENT_NODE) visit(root as Element);
+  for (const element of Array.from(root.querySelectorAll('*'))) visit(element);
+}
+
+function visit(element: Element): void {
+  const entry = pending.get(element.localName);
+  if (entry) {
+    showPlaceholder(element, entry);
+    loadLazy(element.localName).catch(() => {});
+  }
+  if (element.shadowRoot) {
+    observe(element.shadowRoot);
+    scan(element.shadowRoot);
+  }
+}
+
+// Only in empty elements, so it doesn't mix with slotted content or server-rendered markup
+function showPlaceholder(element: Element, entry: LazyEntry): void {
+  if (!entry.placeholder || element.hasChildNodes() || element.shadowRoot) return;
+  const fragment = document.createDocumentFragment();
+  render(entry.placeholder, fragment);
+  entry.placeholders.push(...Array.from(fragment.childNodes));
+  element.appendChild(fragment);
+}
@@ -1,13 +1,51 @@
-import { html, render, type TemplateResult } from 'lit-html';
-import { makeObservable, observable, computed, action, reaction, runInAction, autorun, type AnnotationsMap } from 'mobx';
-import { type BehaviorEntry, isBehavior, mountBehavior, unmountBehavior } from './behavior';
+import { html, type TemplateResult } from 'lit-html';
+import {
+  makeObservable, observable, computed, action, reaction, runInAction, toJS, type AnnotationsMap,
+} from 'mobx';
+import { BehaviorSet, isBehavior } from './behavior';
 import { globalConfig, reportError, type WatchOptions } from './config';
 import { getAnnotations } from './decorators';
+import { emitEvent, type EmitOptions } from './events';
+import { ContextConsumerSet, ContextProviderSet, type Context, type ContextConsumer } from './context';
+import { WatcherSet } from './watch';
+import { ViewController } from './controller';
+import { litRenderer, type Renderer } from './renderer';
+import { isPlainData, takeHydrationData, type HydrationData } from './hydrate';
+import { getSnapshot, applySnapshot, type Serializers, type Snapshot } from './snapshot';
+import type { RouteLocation } from './router';
+import { isLazy, loadLazy } from './lazy';
+import { FormControl, type FormValue } from './form';
+import {
+  defineElement, createScopedRegistry, type ScopedElements, type TagConflictStrategy,
+} from './registry';
+import {
+  isHotReplacementEnabled, hotReplace, latestDefinition, previousDefinition, rememberDefinition, sameShapeState,
+} from './hmr';
 
 // Re-exports
 export { configure, type MantleConfig, type MantleErrorContext, type WatchOptions } from './config';
 export { observable, action, computed } from './decorators';
 export { createBehavior, Behavior } from './behavior';
+export { getSnapshot, applySnapshot, type Snapshot, type Serializers, type FieldSerializer } from './snapshot';
+export {
+  withResource, ResourceBehavior,
+  type ResourceStatus, type ResourceLoader, type ResourceOptions,
+} from './resource';
+export {
+  withPersisted, PersistedBehavior, memoryStorage, indexedDBStorage,
+  type PersistStorage, type PersistOptions,
+} from './persist';
+export { withSlots, SlotsBehavior, SlotContent } from './slots';
+export { type EmitOptions, type EventsOf } from './events';
+export {
+  createContext, ContextRequestEvent,
+  type Context, type ContextType, type ContextCallback, type ContextConsumer,
+} from './context';
+export { FormControl, type FormValue } from './form';
+export { type ScopedElements, type TagConflictStrategy } from './registry';
+export { enableHotReplacement } from './hmr';
+export { defineLazy, type LazyLoader, type LazyOptions } from './lazy';
+export { createRef, ref, Ref } from './ref';
 export { html, svg, nothing } from 'lit-html';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -42,6 +80,44 @@ function getPropertyDeclarations(ctor: any): Map<string | symbol, PropertyDeclar
   return ctor[PROPERTIES] ?? new Map();
 }
 
+/**
+ * Attribute name for a declared prop, or undefined if it has none.
+ * Matches Lit: `attribute: 'name'` wins, otherwise the lowercased property name.
+ */
+function attributeNameFor(key: string, options: PropertyDeclaration): string | undefined {
+  if (options.state || options.attribute === false) return undefined;
+  return typeof options.attribute === 'string' ? options.attribute : key.toLowerCase();
+}
+
+/** Converts an attribute value to a prop value based on `type` (Lit's default converter) */
+function fromAttribute(value: string | null, type: unknown): unknown {
+  switch (type) {
+    case Boolean:
+      return value !== null;
+    case Number:
+      return value === null ? null : Number(value);
+    case Object:
+    case Array:
+      try { return JSON.parse(value!); }
+      catch { return null; }
+    default:
+      return value;
+  }
+}
+
+/** Converts a prop value to an attribute value based on `type`. null/undefined removes the attribute. */
+function toAttribute(value: unknown, type: unknown): unknown {
+  switch (type) {
+    case Boolean:
+      return value ? '' : null;
+    case Object:
+    case Array:
+      return value == null ? value : JSON.stringify(value);
+    default:
+      return value;
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // CSS Support
 // ─────────────────────────────────────────────────────────────────────────────
@@ -74,42 +150,121 @@ export type CSSResultGroup = CSSResult | CSSResult[];
 // ─────────────────────────────────────────────────────────────────────────────
 
 const BASE_EXCLUDES = new Set([
-  'onCreate', 'onMount', 'onUnmount', 'render', 'watch', 'constructor',
-  '_behaviors', '_watchDisposers', '_mountCleanup', '_initialized',
+  'onCreate', 'onMount', 'onUnmount', 'render', 'renderError', 'watch', 'constructor',
+  '_behaviors', '_watchers', '_mountCleanup', '_initialized', '_host', 'emit',
+  '_contexts', '_providers', 'provide', 'consume', 'props', '_props',
+  'formControl', '_formControl', 'onFormReset', 'onFormDisabled', 'onFormStateRestore', 'beforeLeave',
 ]);
 
 /**
  * Base class for ViewModels. Pure MobX state container with lifecycle hooks.
+ * `P` types `this.props`, an alternative to `@property()` fields.
  */
-export class ViewModel {
+export class ViewModel<P extends object = {}> {
   static styles?: CSSResultGroup;
+  /** Converts fields that aren't plain data for getSnapshot() and applySnapshot() */
+  static serializers?: Serializers<any>;
 
-  /** @internal */ private _behaviors?: BehaviorEntry[];
-  /** @internal */ private _watchDisposers?: (() => void)[];
+  /** @internal Behaviors in this ViewModel's fields, and theirs */ _behaviors = new BehaviorSet(this);
+  /** @internal */ _watchers = new WatcherSet({ name: this.constructor.name, isBehavior: false });
   /** @internal */ private _mountCleanup?: () => void;
   /** @internal */ private _initialized?: boolean;
+  /** @internal Element that emit() dispatches from */ _host?: EventTarget;
+  /** @internal */ private _contexts = new ContextConsumerSet();
+  /** @internal */ private _providers?: ContextProviderSet;
+  /** @internal Set by createView() when formAssociated */ _formControl?: FormControl;
+  /** @internal Storage for `props`, made shallowly observable in _initMobX */ _props = {} as P;
+
+  /** Event map for emit(). Type-only: `declare readonly emits: { 'task-added': Task }` */
+  declare readonly emits: {};
 
   onCreate?(): void;
   onMount?(): void | (() => void);
   onUnmount?(): void;
-  render?(): TemplateResult | null;
+  /** A lit-html template with the default renderer, or whatever the view's `renderer` takes */
+  render?(): unknown;
+  /** Fallback UI when render() throws. Rendering retries when the observables it read change. */
+  renderError?(error: unknown): unknown;
+  /** Form-associated views: the owning form was reset */
+  onFormReset?(): void;
+  /** Form-associated views: the element or an ancestor fieldset was disabled or enabled */
+  onFormDisabled?(disabled: boolean): void;
+  /** Form-associated views: the browser restored `state` after navigation or autofill */
+  onFormStateRestore?(state: FormValue, mode: 'restore' | 'autocomplete'): void;
+  /** Views mounted by a router outlet: return false (or resolve to false) to stay on the current route */
+  beforeLeave?(to: RouteLocation, from: RouteLocation): boolean | void | Promise<boolean | void>;
+
+  /**
+   * Form value and validity, for views created with `formAssociated: true`.
+   * Throws for other views.
+   */
+  get formControl(): FormControl {
+    if (!this._formControl) {
+      throw new Error(`[mantle-lit] ${this.constructor.name}.formControl requires createView(..., { formAssociated: true })`);
+    }
+    return this._formControl;
+  }
+
+  /**
+   * Props typed by `View<Props>`, set through the element's `props` property or
+   * mount(). Observable: each key is tracked, values are kept as passed.
+   * Assigning replaces all keys.
+   */
+  get props(): P {
+    return this._props;
+  }
+
+  set props(value: P) {
+    const update = () => {
+      const props = this._props as Record<string, unknown>;
+      for (const key of Object.keys(props)) {
+        if (!(key in value)) delete props[key];
+      }
+      Object.assign(props, value);
+    };
+    if (this._initialized) runInAction(update);
+    else update();
+  }
 
   watch<T>(
     expr: () => T,
     callback: (value: T, prev: T | undefined) => void,
     options?: WatchOptions
   ): () => void {
-    if (!this._watchDisposers) this._watchDisposers = [];
-    const dispose = reaction(expr, (value, prev) => {
-      try { callback(value, prev); }
-      catch (e) { reportError(e, { phase: 'watch', name: this.constructor.name, isBehavior: false }); }
-    }, { delay: options?.delay, fireImmediately: options?.fireImmediately });
-    this._watchDisposers.push(dispose);
-    return () => {
-      dispose();
-      const idx = this._watchDisposers!.indexOf(dispose);
-      if (idx !== -1) this._watchDisposers!.splice(idx, 1);
-    };
+    return this._watchers.add(expr, callback, options);
+  }
+
+  /**
+   * Dispatch a typed CustomEvent from the host element.
+   * Event names and detail types come from the `emits` declaration.
+   */
+  emit<K extends keyof this['emits'] & string>(type: K, detail: this['emits'][K], options?: EmitOptions): boolean {
+    return emitEvent(this._host, this.constructor.name, type, detail, options);
+  }
+
+  /**
+   * Provide a value to descendant Views and Behaviors under `context`.
+   * `expr` is reactive: consumers update when its result changes. Call from onCreate.
+   */
+  provide<V>(context: Context<unknown, V>, expr: () => V): void {
+    if (!this._host) throw new Error(`[mantle-lit] ${this.constructor.name}.provide() called before it was attached to an element`);
+    if (!this._providers) this._providers = new ContextProviderSet(this._host);
+    this._providers.add(context, expr, (e, cb) => this.watch(e, cb));
+  }
+
+  /**
+   * Consume a value provided by an ancestor View (or any context protocol provider).
+   * The returned consumer's `value` is observable and set while the view is mounted.
+   */
+  consume<V>(context: Context<unknown, V>): ContextConsumer<V> {
+    return this._contexts.add(context);
+  }
+
+  /** @internal Request context values for this view and its behaviors */
+  _connectContexts(): void {
+    if (!this._host) return;
+    this._contexts.connect(this._host);
+    this._behaviors.connect(this._host);
   }
 
   /** @internal */
@@ -117,20 +272,24 @@ export class ViewModel {
     if (this._initialized) return;
     this._initialized = true;
 
+    // Class fields are defined as own properties (useDefineForClassFields), which
+    // shadow the prototype accessors - move them into @property() storage
+    for (const [key] of declaredProps) {
+      if (typeof key !== 'string' || !Object.prototype.hasOwnProperty.call(this, key)) continue;
+      const value = (this as any)[key];
+      delete (this as any)[key];
+      (this as any)[key] = value;
+    }
+
+    // View<Props> props: new keys are tracked too, values are kept as passed
+    this._props = observable.object(this._props, {}, { deep: false });
+
     // Make @property() storage observable
     const storage = (this as any)[PROP_VALUES];
     if (storage) {
       (this as any)[PROP_VALUES] = observable.object(storage, {}, { deep: true });
     }
 
-    // Collect behaviors
-    if (!this._behaviors) this._behaviors = [];
-    for (const key of Object.keys(this)) {
-      if (!key.startsWith('_') && isBehavior((this as any)[key])) {
-        this._behaviors.push({ instance: (this as any)[key] });
-      }
-    }
-
     // Check for explicit decorator annotations
     const decoratorAnnotations = getAnnotations(this);
     if (decoratorAnnotations) {
@@ -150,6 +309,9 @@ export class ViewModel {
     } else {
       makeObservable(this);
     }
+
+    // Collect behaviors from fields. Ones assigned later are picked up while mounted.
+    this._behaviors.sync();
   }
 
   private _makeAutoObservable(declaredProps: Map<string | symbol, PropertyDeclaration>): void {
@@ -177,13 +339,34 @@ export class ViewModel {
     makeObservable(this, annotations as AnnotationsMap<this, never>);
   }
 
+  /** @internal Set `values` on fields the ViewModel has, and on `props` for other keys */
+  _assignProps(values: object): void {
+    const assign = () => {
+      for (const [key, value] of Object.entries(values)) {
+        if (key in this) (this as any)[key] = value;
+        else (this._props as any)[key] = value;
+      }
+    };
+    if (this._initialized) runInAction(assign);
+    else assign();
+  }
+
   /** @internal */
   _mountBehaviors(): void {
-    for (const b of this._behaviors ?? []) mountBehavior(b);
+    this._behaviors.mount();
   }
 
-  /** @internal */
+  /** @internal Stop watchers and context subscriptions without running unmount hooks (after a server render) */
+  _dispose(): void {
+    this._watchers.suspend();
+    this._contexts.disconnect();
+    this._behaviors.dispose();
+  }
+
+  /** @internal Resumes watchers suspended by a previous unmount, then calls onMount */
   _callOnMount(): void {
+    this._watchers.resume();
+    this._watchers.mounting = true;
     try {
       const result = this.onMount?.();
       if (process.env.NODE_ENV !== 'production' && result instanceof Promise) {
@@ -193,51 +376,72 @@ export class ViewModel {
     } catch (e) {
       reportError(e, { phase: 'onMount', name: this.constructor.name, isBehavior: false });
     }
+    this._watchers.mounting = false;
   }
 
-  /** @internal */
+  /** @internal Unmount cleanup. Watchers are suspended, not disposed, so a remount can resume them. */
   _cleanup(): void {
     this._mountCleanup?.();
+    this._mountCleanup = undefined;
     try { this.onUnmount?.(); }
     catch (e) { reportError(e, { phase: 'onUnmount', name: this.constructor.name, isBehavior: false }); }
-    for (const d of this._watchDisposers ?? []) d();
-    for (const b of this._behaviors ?? []) unmountBehavior(b);
+    this._watchers.suspend();
+    this._contexts.disconnect();
+    this._behaviors.unmount();
   }
 }
 
 export { ViewModel as View };
 
+/** Any ViewModel class, whatever its props type */
+export type ViewModelClass = typeof ViewModel<any>;
+
+/**
+ * Props accepted by mount() and mountView() for a ViewModel or view element:
+ * its `View<Props>` props, plus any of its other fields.
+ */
+export type ViewProps<T> = T extends { props: infer P extends object }
+  ? P & Partial<Omit<T, 'props' | keyof P>>
+  : Partial<T>;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // createView
 // ─────────────────────────────────────────────────────────────────────────────
 
-export interface CreateViewOptions<T extends typeof ViewModel = typeof ViewModel> {
+/** @internal Element class info read by the server renderer (see ssr.ts) */
+export interface ViewElementInfo {
+  shadow: boolean;
+  styles?: CSSResultGroup;
+}
+
+export interface CreateViewOptions<T extends ViewModelClass = ViewModelClass> {
   tag: string;
   autoObservable?: boolean;
   shadow?: boolean;
-  template?: (vm: InstanceType<T>) => TemplateResult | null;
+  template?: (vm: InstanceType<T>) => unknown;
+  /** Fallback UI when rendering throws, if the ViewModel has no renderError() */
+  fallback?: (error: unknown, vm: InstanceType<T>) => unknown;
   styles?: CSSResultGroup;
+  /** Take part in forms through ElementInternals. See ViewModel.formControl. */
+  formAssociated?: boolean;
+  /** Turns render() results into DOM (default: lit-html) */
+  renderer?: Renderer;
+  /** Registry to define the tag in (default: `customElements`), or false to leave it undefined */
+  registry?: CustomElementRegistry | false;
+  /** Child elements this view renders, defined in a registry scoped to its shadow root */
+  elements?: ScopedElements;
+  /** When the tag is taken by another class: warn (default) or define under a suffixed tag */
+  tagConflict?: TagConflictStrategy;
 }
 
 /**
- * Creates a custom element from a ViewModel class.
+ * @internal
+ * Install prototype accessors for a ViewModel's @property() fields and return the
+ * declarations. Own properties created by class field initializers are moved into
+ * the accessors' storage in _initMobX.
  */
-export function createView<T extends typeof ViewModel>(
-  VMClass: T,
-  options: CreateViewOptions<T>
-): { new(): HTMLElement & InstanceType<T> } & T {
-  const { tag, autoObservable = globalConfig.autoObservable, shadow = true, template, styles: optStyles } = options;
-  const hasRender = typeof VMClass.prototype.render === 'function';
-  
-  if (!hasRender && !template) {
-    throw new Error(`[mantle-lit] ${VMClass.name}: Provide render() or template option`);
-  }
-
-  const styles = optStyles ?? VMClass.styles;
+export function prepareViewModel(VMClass: ViewModelClass): Map<string | symbol, PropertyDeclaration> {
   const declaredProps = getPropertyDeclarations(VMClass);
-
-  // Set up ViewModel prototype accessors for @property() fields
-  // This intercepts class field initializers before they create own properties
   for (const [key] of declaredProps) {
     if (typeof key !== 'string' || Object.getOwnPropertyDescriptor(VMClass.prototype, key)) continue;
     Object.defineProperty(VMClass.prototype, key, {
@@ -256,55 +460,283 @@ export function createView<T extends typeof ViewModel>(
       configurable: true,
     });
   }
+  return declaredProps;
+}
+
+/** Element class returned by createView(), with the ViewModel class's statics */
+export type ViewElementClass<T extends ViewModelClass> = {
+  new(): HTMLElement & InstanceType<T> & { readonly updateComplete: Promise<boolean> };
+  /** The tag the element was defined as, which differs from the `tag` option after a suffixed conflict */
+  readonly tag: string;
+} & Omit<T, 'prototype'>;
+
+/**
+ * Creates a custom element from a ViewModel class.
+ */
+export function createView<T extends ViewModelClass>(
+  VMClass: T,
+  options: CreateViewOptions<T>
+): ViewElementClass<T> {
+  const {
+    tag, autoObservable = globalConfig.autoObservable, shadow = true, template, fallback,
+    styles: optStyles, formAssociated = false, renderer = litRenderer,
+    registry = customElements, elements, tagConflict,
+  } = options;
+  const hasRender = typeof VMClass.prototype.render === 'function';
+  
+  if (!hasRender && !template) {
+    throw new Error(`[mantle-lit] ${VMClass.name}: Provide render() or template option`);
+  }
+
+  if (elements && !shadow) {
+    throw new Error(`[mantle-lit] ${VMClass.name}: the elements option requires shadow: true`);
+  }
+
+  const styles = optStyles ?? VMClass.styles;
+  const declaredProps = prepareViewModel(VMClass);
+  // Child tags resolve in this registry inside the view's shadow roots
+  const scopedRegistry = elements ? createScopedRegistry(VMClass.name, elements) : undefined;
+
+  // Attribute name → prop key, plus the props that reflect back to their attribute
+  const attributeToProp = new Map<string, string>();
+  const reflectedProps: [key: string, attribute: string][] = [];
+  for (const [key, options] of declaredProps) {
+    if (typeof key !== 'string') continue;
+    const attribute = attributeNameFor(key, options);
+    if (!attribute) continue;
+    attributeToProp.set(attribute, key);
+    if (options.reflect) reflectedProps.push([key, attribute]);
+  }
 
   class GeneratedElement extends HTMLElement {
-    private _vm: InstanceType<T>;
+    // defer-hydration: set by @lit-labs/ssr on nested elements until their parent hydrates
+    static observedAttributes = [...attributeToProp.keys(), 'defer-hydration'];
+    /** @internal Read by the server renderer */
+    static _mantleView: ViewElementInfo = { shadow, styles };
+    static formAssociated = formAssociated;
+    static tag = tag;
+    /** @internal Tells a second definition of the same view from a tag conflict */
+    static _viewModel = VMClass;
+
+    /** @internal */ _vm!: InstanceType<T>;
+    private _controller!: ViewController<InstanceType<T>>;
     private _renderRoot?: HTMLElement | ShadowRoot;
-    private _dispose?: () => void;
+    private _reflectDisposers: (() => void)[] = [];
+    private _reflectingProperty?: string;
+    // State to restore on the next connect, after a hot update
+    private _hotState?: Snapshot;
 
     constructor() {
       super();
+      // Created after a hot update: use the latest definition
+      const definition = latestDefinition(new.target);
+      if (definition !== new.target) Object.setPrototypeOf(this, definition.prototype);
+      this._setup();
+    }
+
+    /** @internal Create the ViewModel and its controller */
+    _setup(formControl?: FormControl): void {
       this._vm = new VMClass() as InstanceType<T>;
+      this._controller = new ViewController(this._vm, this, {
+        autoObservable, declaredProps, renderer, template, fallback,
+      });
+      // attachInternals() only works once per element, so a hot update passes the old one
+      if (formAssociated) this._vm._formControl = formControl ?? new FormControl(this.attachInternals());
+    }
+
+    attributeChangedCallback(name: string, _oldValue: string | null, value: string | null): void {
+      if (name === 'defer-hydration') {
+        if (value === null && this.isConnected) this.connectedCallback();
+        return;
+      }
+      const key = attributeToProp.get(name);
+      // Ignore the change we just made while reflecting this prop
+      if (!key || this._reflectingProperty === key) return;
+      (this._vm as any)[key] = fromAttribute(value, declaredProps.get(key)!.type);
     }
 
     connectedCallback(): void {
-      // Create render root
-      if (shadow) {
-        const root = this.attachShadow({ mode: 'open' });
-        if (styles) {
-          root.adoptedStyleSheets = (Array.isArray(styles) ? styles : [styles]).map(s => s.styleSheet);
+      // A server-rendered parent hasn't hydrated yet and may still set our props
+      if (this._controller.mounted || this.hasAttribute('defer-hydration')) return;
+
+      // Disconnected during a hot update: switch to the latest definition first
+      const definition = latestDefinition(this.constructor as typeof GeneratedElement);
+      if (definition !== this.constructor) {
+        this._hotReplace(definition);
+        this.connectedCallback();
+        return;
+      }
+
+      // First connect only: create the render root and apply server props.
+      // Later connects (the element was moved) reuse all of it.
+      const firstConnect = !this._controller.created;
+      let hydration: HydrationData | undefined;
+      if (firstConnect) {
+        if (shadow && this.shadowRoot) {
+          // Declarative shadow root from the server. Its inline styles stay in place.
+          this._renderRoot = this.shadowRoot;
+        } else if (shadow) {
+          this._renderRoot = this.attachShadow({ mode: 'open', customElementRegistry: scopedRegistry });
+          this._adoptStyles(this._renderRoot);
+        } else {
+          this._renderRoot = this;
         }
-        this._renderRoot = root;
-      } else {
-        this._renderRoot = this;
+
+        hydration = takeHydrationData(this._renderRoot);
+        if (hydration) this._assignProps(hydration.props);
       }
 
-      // Initialize MobX
-      this._vm._initMobX(autoObservable, declaredProps);
+      // Init MobX and call onCreate (first connect), request context values
+      this._controller.connect();
+      // Server state wins over what onCreate computed, so the first render matches the markup
+      if (hydration) applySnapshot(this._vm, hydration.state);
+      // After a hot update, keep the state whose shape didn't change
+      else if (this._hotState) applySnapshot(this._vm, sameShapeState(this._hotState, getSnapshot(this._vm)));
+      this._hotState = undefined;
+
+      // Reflect props to attributes
+      this._reflectDisposers = reflectedProps.map(([key, attribute]) => reaction(
+        () => (this._vm as any)[key],
+        (value) => this._reflect(key, attribute, value),
+        { fireImmediately: true }
+      ));
+
+      // Render, mount behaviors and call onMount
+      this._controller.mount(this._renderRoot!, hydration ? (result) => this._hydrate(result) : undefined);
+    }
+
+    disconnectedCallback(): void {
+      if (!this._controller.mounted) return;
+      for (const d of this._reflectDisposers) d();
+      this._controller.unmount();
+    }
+
+    /**
+     * @internal Switch to a definition from a hot update. A new ViewModel gets the
+     * current props, runs onCreate, then gets back the state that kept its shape.
+     * Connected elements unmount and mount again with the new render and styles.
+     */
+    _hotReplace(next: typeof GeneratedElement): void {
+      const vm = this._vm as any;
+      const props: Record<string, unknown> = { ...vm.props };
+      for (const [key] of declaredProps) {
+        if (typeof key === 'string') props[key] = vm[key];
+      }
+      const mounted = this._controller.mounted;
+      if (this._controller.created) {
+        this._hotState = getSnapshot(vm);
+        if (mounted) this.disconnectedCallback();
+        this._controller.dispose();
+      }
+
+      // Methods called from here on are the new definition's
+      Object.setPrototypeOf(this, next.prototype);
+      this._setup(vm._formControl);
+      this._assignProps(props);
+      if (this.shadowRoot && this._renderRoot === this.shadowRoot) this._adoptStyles(this.shadowRoot);
+      if (mounted) this.connectedCallback();
+    }
 
-      // onCreate
-      try { runInAction(() => this._vm.onCreate?.()); }
-      catch (e) { reportError(e, { phase: 'onCreate', name: VMClass.name, isBehavior: false }); }
+    private _adoptStyles(root: ShadowRoot): void {
+      root.adoptedStyleSheets = styles ? (Array.isArray(styles) ? styles : [styles]).map(s => s.styleSheet) : [];
+    }
+
+    /**
+     * @internal Server render: set up the ViewModel and return its template without
+     * touching the DOM. Reflected props are written to the (shimmed) attributes.
+     * Nothing updates after this, so watchers from onCreate are stopped right away.
+     */
+    _renderOnServer(): TemplateResult | null {
+      this._controller.connect();
+      for (const [key, attribute] of reflectedProps) this._reflect(key, attribute, (this._vm as any)[key]);
+      const result = this._controller.renderTemplate() as TemplateResult | null;
+      this._controller.dispose();
+      return result;
+    }
 
-      // Reactive rendering
-      this._dispose = autorun(() => {
-        const result = hasRender ? this._vm.render!() : template!(this._vm);
-        if (result && this._renderRoot) render(result, this._renderRoot);
+    /** @internal Props and ViewModel state embedded by the server renderer */
+    _hydrationData(): HydrationData {
+      const props: Record<string, unknown> = {};
+      for (const [key] of declaredProps) {
+        if (typeof key !== 'string') continue;
+        const value = (this._vm as any)[key];
+        if (isPlainData(value)) props[key] = toJS(value);
+      }
+      for (const [key, value] of Object.entries(this._vm.props)) {
+        if (isPlainData(value)) props[key] = toJS(value);
+      }
+      return { props, state: getSnapshot(this._vm) };
+    }
+
+    /**
+     * @internal Set props from mount() or the server renderer. Declared props and
+     * `props` go through the element's accessors, others to the ViewModel or its
+     * `props`, even when HTMLElement has a property of that name (`title`, `hidden`...).
+     */
+    _assignProps(values: object): void {
+      const rest: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(values)) {
+        if (declaredProps.has(key) || key === 'props') (this as any)[key] = value;
+        else rest[key] = value;
+      }
+      this._vm._assignProps(rest);
+    }
+
+    /**
+     * Resolves when pending renders have run. Renders after a change are batched
+     * into a microtask (or animation frame), so await this before reading the DOM.
+     */
+    get updateComplete(): Promise<boolean> {
+      return this._controller.updateComplete;
+    }
+
+    /** Adopt the server-rendered DOM for the first render */
+    private _hydrate(result: unknown): void {
+      const root = this._renderRoot!;
+      if (globalConfig.hydrate) {
+        globalConfig.hydrate(result, root);
+        return;
+      }
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(`[mantle-lit] <${tag}> was server-rendered but no hydrate function is configured; re-rendering. See configure({ hydrate }).`);
+      }
+      root.replaceChildren();
+      renderer.render(result, root);
+    }
+
+    // Form-associated callbacks (only called when formAssociated is set)
+
+    formResetCallback(): void {
+      this._callFormHook('onFormReset', () => this._vm.onFormReset?.());
+    }
+
+    formDisabledCallback(disabled: boolean): void {
+      this._callFormHook('onFormDisabled', () => {
+        this._vm._formControl?._setDisabled(disabled);
+        this._vm.onFormDisabled?.(disabled);
       });
+    }
 
-      // Mount
-      this._vm._mountBehaviors();
-      this._vm._callOnMount();
+    formStateRestoreCallback(state: FormValue, mode: 'restore' | 'autocomplete'): void {
+      this._callFormHook('onFormStateRestore', () => this._vm.onFormStateRestore?.(state, mode));
     }
 
-    disconnectedCallback(): void {
-      this._dispose?.();
-      this._vm._cleanup();
+    private _callFormHook(phase: 'onFormReset' | 'onFormDisabled' | 'onFormStateRestore', fn: () => void): void {
+      try { runInAction(fn); }
+      catch (e) { reportError(e, { phase, name: VMClass.name, isBehavior: false }); }
+    }
+
+    private _reflect(key: string, attribute: string, value: unknown): void {
+      const attrValue = toAttribute(value, declaredProps.get(key)!.type);
+      this._reflectingProperty = key;
+      if (attrValue == null) this.removeAttribute(attribute);
+      else this.setAttribute(attribute, attrValue as string);
+      this._reflectingProperty = undefined;
     }
   }
 
   // Element accessors delegate to ViewModel (prevents HTMLElement.title conflicts)
-  for (const [key] of declaredProps) {
+  for (const key of [...declaredProps.keys(), 'props']) {
     if (typeof key !== 'string') continue;
     Object.defineProperty(GeneratedElement.prototype, key, {
       get() { return (this as any)._vm[key]; },
@@ -314,23 +746,131 @@ export function createView<T extends typeof ViewModel>(
     });
   }
 
-  if (!customElements.get(tag)) customElements.define(tag, GeneratedElement);
+  if (!registry) return GeneratedElement as any;
+
+  // The module ran again after an edit: update the earlier definition's elements
+  const previous = previousDefinition(registry, tag);
+  if (previous && isHotReplacementEnabled()) {
+    hotReplace(previous, GeneratedElement, (previous as typeof GeneratedElement).tag);
+    return previous as any;
+  }
+
+  GeneratedElement.tag = defineElement(registry, tag, GeneratedElement, tagConflict);
+  if (registry.get(GeneratedElement.tag) === GeneratedElement) rememberDefinition(registry, tag, GeneratedElement);
   return GeneratedElement as any;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// mount
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A view created with mount() */
+export interface MountHandle<E extends HTMLElement = HTMLElement> {
+  /** The mounted element */
+  readonly element: E;
+  /** Resolves once the element is defined (lazy tags load first) and has rendered */
+  readonly ready: Promise<void>;
+  /** Set props. Keys left out keep their values. */
+  update(props: Partial<ViewProps<E>>): void;
+  /** Remove the element, running onUnmount and behavior cleanup */
+  unmount(): void;
+}
+
+// Views from mount() that are still mounted, for unmountAll()
+const mountedHandles = new Set<MountHandle & { container: Element }>();
+
+/**
+ * Mount a view to the DOM with props. Pass a tag listed in `HTMLElementTagNameMap`,
+ * or the element class returned by createView(). Props are type-checked against
+ * it, including the ones from `View<Props>`. A tag from defineLazy() loads first:
+ * the element gets its props and is added once defined (see `ready`).
+ *
+ * @example
+ * ```ts
+ * const counter = mount('x-counter', { initialCount: 5 }, '#app');
+ * counter.update({ initialCount: 10 });
+ * counter.unmount();
+ * ```
+ */
+export function mount<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  props?: ViewProps<HTMLElementTagNameMap[K]>,
+  container?: Element | string
+): MountHandle<HTMLElement & HTMLElementTagNameMap[K]>;
+export function mount<E extends HTMLElement>(
+  view: new () => E,
+  props?: ViewProps<E>,
+  container?: Element | string
+): MountHandle<E>;
+export function mount(
+  view: string | (new () => HTMLElement),
+  props?: object,
+  container?: Element | string
+): MountHandle {
+  if (typeof view === 'string' && !customElements.get(view) && !isLazy(view)) {
+    throw new Error(`[mantle-lit] mount: "${view}" not registered`);
+  }
+  const target = resolveContainer(container);
+  const element = typeof view === 'string' ? document.createElement(view) : new view();
+
+  // Props set before the element is defined would shadow its accessors, so they wait.
+  // The element stays detached until then, so onCreate and the first render see them.
+  let queuedProps: object | undefined;
+  let defined: Promise<void>;
+  if (typeof view === 'string' && !customElements.get(view)) {
+    queuedProps = { ...props };
+    defined = loadLazy(view).then(() => {
+      customElements.upgrade(element);
+      assignProps(element, queuedProps!);
+      queuedProps = undefined;
+      if (mountedHandles.has(handle)) target.appendChild(element);
+    });
+  } else {
+    if (props) assignProps(element, props);
+    target.appendChild(element);
+    defined = Promise.resolve();
+  }
+  const ready = defined.then(() => (element as { updateComplete?: Promise<unknown> }).updateComplete).then(() => undefined);
+  // A failed load is already reported; only callers awaiting `ready` see it
+  ready.catch(() => {});
+
+  const handle = {
+    element,
+    container: target,
+    ready,
+    update(props: object) {
+      if (queuedProps) Object.assign(queuedProps, props);
+      else assignProps(element, props);
+    },
+    unmount() {
+      if (!mountedHandles.delete(handle)) return;
+      element.remove();
+    },
+  };
+  mountedHandles.add(handle);
+  return handle;
+}
+
 /**
- * Mount a view to the DOM with props.
+ * Unmount every view that mount() put in `container`, or all of them when no
+ * container is given.
  */
-export function mount<P extends object>(tag: string, props?: P, container?: Element | string): HTMLElement & P {
-  if (!customElements.get(tag)) {
-    throw new Error(`[mantle-lit] mount: "${tag}" not registered`);
+export function unmountAll(container?: Element | string): void {
+  const target = container === undefined ? undefined : resolveContainer(container);
+  for (const handle of [...mountedHandles]) {
+    if (!target || handle.container === target) handle.unmount();
   }
-  const el = document.createElement(tag) as HTMLElement & P;
-  if (props) Object.assign(el, props);
+}
+
+function resolveContainer(container: Element | string | undefined): Element {
   const target = typeof container === 'string' ? document.querySelector(container) : container ?? document.body;
   if (!target) throw new Error(`[mantle-lit] mount: container not found`);
-  target.appendChild(el);
-  return el;
+  return target;
+}
+
+function assignProps(element: HTMLElement, props: object): void {
+  if (typeof (element as any)._assignProps === 'function') (element as any)._assignProps(props);
+  else Object.assign(element, props);
 }
 
 // Type helpers
@@ -0,0 +1,349 @@
+import { toJS } from 'mobx';
+import { Behavior, createBehavior } from './behavior';
+import { reportError } from './config';
+import { isPlainData } from './hydrate';
+
+/**
+ * Where persisted state is stored. `localStorage` and `sessionStorage` fit as they
+ * are; async methods are awaited. Adapters without `subscribe` are kept in sync
+ * across tabs through the `storage` event (Web Storage) or a BroadcastChannel.
+ */
+export interface PersistStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+  /** Call `listener` when `key` changes elsewhere. Returns an unsubscribe function. */
+  subscribe?(key: string, listener: (value: string | null) => void): () => void;
+}
+
+export interface PersistOptions<T> {
+  /** Where to store the state (default: `localStorage`, or nothing on the server) */
+  storage?: PersistStorage;
+  /** Version of the state's shape. Bump it when the shape changes (default: 0). */
+  version?: number;
+  /** Convert state stored by an older version. Without it, older state is dropped. */
+  migrate?: (state: any, fromVersion: number) => T;
+  /** Debounce writes by N milliseconds (default: 100) */
+  delay?: number;
+}
+
+/** What's written to storage: the state and the version it was written by */
+interface StoredState {
+  version: number;
+  state: unknown;
+}
+
+/**
+ * State kept in storage under a key. Loaded when created, written back after it
+ * changes, and updated when another tab writes it. Create it with withPersisted().
+ */
+export class PersistedBehavior<T = unknown> extends Behavior {
+  /** The persisted state. Deeply observable: change it or its fields directly. */
+  value!: T;
+  /** False until async storage (such as IndexedDB) has loaded the stored state */
+  loaded = false;
+
+  private _key!: string;
+  private _defaults!: T;
+  private _storage?: PersistStorage;
+  private _version = 0;
+  private _migrate?: (state: any, fromVersion: number) => T;
+  private _delay = 100;
+  // Last JSON read or written, so unchanged state isn't written again
+  private _lastJson: string | null = null;
+  // Stored state was read since the last mount (the first read is in onCreate)
+  private _fresh = true;
+  // Tells other tabs to read the key again, for storage without change events
+  private _broadcast?: BroadcastChannel;
+
+  onCreate(key: string, defaults: T, options?: PersistOptions<T>) {
+    this._key = key;
+    this._defaults = defaults;
+    this._storage = options?.storage ?? defaultStorage();
+    this._version = options?.version ?? 0;
+    this._migrate = options?.migrate;
+    if (options?.delay !== undefined) this._delay = options.delay;
+    this.value = clone(defaults);
+    this._load();
+  }
+
+  onMount() {
+    // Another tab may have written while this one was unmounted
+    if (!this._fresh) this._load();
+    this._fresh = true;
+
+    this.watch(() => toJS(this.value), () => this.save(), { delay: this._delay });
+    const unsubscribe = this._subscribe();
+    return () => {
+      unsubscribe?.();
+      this._fresh = false;
+    };
+  }
+
+  onUnmount() {
+    // Don't lose a write still waiting on its debounce
+    this.save();
+  }
+
+  /** Write the state now instead of after the debounce */
+  save(): void {
+    if (!this._storage || !this.loaded) return;
+    const json = this._json();
+    if (json === this._lastJson) return;
+    this._lastJson = json;
+    this._run(() => this._storage!.setItem(this._key, json), () => this._broadcast?.postMessage(null));
+  }
+
+  /** Set the state back to the defaults */
+  reset(): void {
+    this.value = clone(this._defaults);
+  }
+
+  /** Remove the stored state and go back to the defaults */
+  clear(): void {
+    this.reset();
+    // The defaults aren't written back
+    this._lastJson = this._json();
+    if (this._storage) this._run(() => this._storage!.removeItem(this._key), () => this._broadcast?.postMessage(null));
+  }
+
+  private _json(): string {
+    const stored: StoredState = { version: this._version, state: toJS(this.value) };
+    return JSON.stringify(stored);
+  }
+
+  private _load(): void {
+    const storage = this._storage;
+    if (!storage) {
+      this.loaded = true;
+      return;
+    }
+    this._run(() => storage.getItem(this._key), (raw) => this._apply(raw ?? null));
+  }
+
+  /** Use state read from storage: migrated, and merged over the defaults */
+  private _apply(raw: string | null): void {
+    this.loaded = true;
+    if (raw === this._lastJson) return;
+    this._lastJson = raw;
+    if (raw === null) {
+      // Removed elsewhere: don't write the defaults back
+      this.reset();
+      this._lastJson = this._json();
+      return;
+    }
+
+    let stored: StoredState;
+    try {
+      stored = JSON.parse(raw);
+    } catch (e) {
+      reportError(e, { phase: 'persist', name: this.constructor.name, isBehavior: true });
+      return;
+    }
+
+    let state = stored.state;
+    if (stored.version !== this._version) {
+      if (stored.version > this._version || !this._migrate) {
+        if (process.env.NODE_ENV !== 'production') {
+          console.warn(`[mantle-lit] Ignoring persisted state for "${this._key}": stored by version ${stored.version}, expected ${this._version}.`);
+        }
+        return;
+      }
+      try {
+        state = this._migrate(state, stored.version);
+      } catch (e) {
+        reportError(e, { phase: 'persist', name: this.constructor.name, isBehavior: true });
+        return;
+      }
+    }
+
+    const defaults = this._defaults;
+    this.value = (isObject(defaults) && isObject(state) ? { ...clone(defaults), ...state } : state) as T;
+  }
+
+  /** Follow changes made by other tabs while mounted */
+  private _subscribe(): (() => void) | undefined {
+    const storage = this._storage;
+    if (!storage) return undefined;
+    if (storage.subscribe) return storage.subscribe(this._key, (raw) => this._apply(raw));
+
+    if (typeof Storage !== 'undefined' && storage instanceof Storage && typeof window !== 'undefined') {
+      const onStorage = (e: StorageEvent) => {
+        // `key` is null when the storage was cleared
+        if (e.storageArea === storage && (e.key === this._key || e.key === null)) this._apply(e.newValue);
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    }
+
+    if (typeof BroadcastChannel === 'undefined') return undefined;
+    const channel = new BroadcastChannel(`mantle-lit:persist:${this._key}`);
+    channel.onmessage = () => this._load();
+    this._broadcast = channel;
+    return () => {
+      channel.close();
+      this._broadcast = undefined;
+    };
+  }
+
+  /** Run a storage call that may be async, reporting failures */
+  private _run<R>(call: () => R | Promise<R>, then: (result: R) => void): void {
+    const report = (e: unknown) => reportError(e, { phase: 'persist', name: this.constructor.name, isBehavior: true });
+    try {
+      const result = call();
+      if (result instanceof Promise) result.then(then, report);
+      else then(result);
+    } catch (e) {
+      report(e);
+    }
+  }
+}
+
+function defaultStorage(): PersistStorage | undefined {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    // Reading localStorage throws when storage is blocked
+    return undefined;
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return isPlainData(value) && value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+const createPersisted = createBehavior(PersistedBehavior);
+
+/**
+ * Create a persisted behavior: observable `value` loaded from storage under `key`,
+ * starting from `defaults`. Changes are written back after `delay` ms and picked up
+ * from other tabs. Stored object state is merged over the defaults, so new fields
+ * get their default value.
+ *
+ * @example
+ * ```ts
+ * class Settings extends View {
+ *   prefs = withPersisted('settings', { theme: 'light', fontSize: 14 }, {
+ *     version: 1,
+ *     migrate: (old, from) => (from === 0 ? { ...old, fontSize: Number(old.fontSize) } : old),
+ *   });
+ *
+ *   render() {
+ *     return html`<button @click=${() => (this.prefs.value.theme = 'dark')}>${this.prefs.value.theme}</button>`;
+ *   }
+ * }
+ * ```
+ */
+export function withPersisted<T>(key: string, defaults: T, options?: PersistOptions<T>): PersistedBehavior<T> {
+  return createPersisted(key, defaults, options) as PersistedBehavior<T>;
+}
+
+/**
+ * Storage in memory, for tests. Behaviors sharing one instance see each other's
+ * writes, like tabs sharing localStorage.
+ */
+export function memoryStorage(initial?: Record<string, string>): PersistStorage {
+  return new MemoryStorage(initial);
+}
+
+class MemoryStorage implements PersistStorage {
+  private _items: Map<string, string>;
+  private _listeners = new Map<string, Set<(value: string | null) => void>>();
+
+  constructor(initial?: Record<string, string>) {
+    this._items = new Map(Object.entries(initial ?? {}));
+  }
+
+  getItem(key: string): string | null {
+    return this._items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this._items.set(key, value);
+    this._notify(key, value);
+  }
+
+  removeItem(key: string): void {
+    this._items.delete(key);
+    this._notify(key, null);
+  }
+
+  subscribe(key: string, listener: (value: string | null) => void): () => void {
+    let listeners = this._listeners.get(key);
+    if (!listeners) this._listeners.set(key, (listeners = new Set()));
+    listeners.add(listener);
+    return () => listeners!.delete(listener);
+  }
+
+  private _notify(key: string, value: string | null): void {
+    for (const listener of Array.from(this._listeners.get(key) ?? [])) listener(value);
+  }
+}
+
+/**
+ * Storage in IndexedDB, for state too large for localStorage. Values are kept as
+ * JSON strings in one object store.
+ */
+export function indexedDBStorage(database = 'mantle-lit', store = 'persisted'): PersistStorage {
+  return new IndexedDBStorage(database, store);
+}
+
+class IndexedDBStorage implements PersistStorage {
+  private _db?: Promise<IDBDatabase>;
+
+  constructor(private _database: string, private _store: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return (await this._request('readonly', (store) => store.get(key))) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this._request('readwrite', (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this._request('readwrite', (store) => store.delete(key));
+  }
+
+  private _open(): Promise<IDBDatabase> {
+    return (this._db ??= this._connect().catch((error) => {
+      this._db = undefined;
+      throw error;
+    }));
+  }
+
+  /** Open the database, upgrading it when it doesn't have this adapter's store yet */
+  private async _connect(version?: number): Promise<IDBDatabase> {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this._database, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this._store)) request.result.createObjectStore(this._store);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (!db.objectStoreNames.contains(this._store)) {
+      db.close();
+      return this._connect(db.version + 1);
+    }
+    // Let adapters for other stores in the same database upgrade it; this one reopens on its next call
+    db.onversionchange = () => {
+      db.close();
+      this._db = undefined;
+    };
+    return db;
+  }
+
+  private async _request<R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+    const db = await this._open();
+    return new Promise((resolve, reject) => {
+      const request = fn(db.transaction(this._store, mode).objectStore(this._store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import { makeObservable, observable, runInAction } from 'mobx';
+import { ref as litRef } from 'lit-html/directives/ref.js';
+
+/**
+ * An element from a view's template, set by the `ref()` directive. `value` is
+ * observable: it's set during render, before onMount, and cleared after onUnmount.
+ */
+export class Ref<T extends Element = Element> {
+  value: T | undefined = undefined;
+
+  constructor() {
+    makeObservable(this, { value: observable.ref });
+  }
+
+  /** @internal Called by lit with the element, and with undefined when disconnected. Stable, so lit doesn't reset it on every render. */
+  _set = (element: Element | undefined): void => {
+    if (this.value === element) return;
+    runInAction(() => { this.value = element as T | undefined; });
+  };
+}
+
+/**
+ * Create a ref to bind with `ref()` in a template.
+ *
+ * @example
+ * ```ts
+ * class Editor extends View {
+ *   canvas = createRef<HTMLCanvasElement>();
+ *   drag = withDrag(this.canvas);
+ *
+ *   onMount() {
+ *     this.canvas.value!.focus();
+ *   }
+ *
+ *   render() {
+ *     return html`<canvas ${ref(this.canvas)}></canvas>`;
+ *   }
+ * }
+ * ```
+ */
+export function createRef<T extends Element = Element>(): Ref<T> {
+  return new Ref<T>();
+}
+
+/** Element directive that puts the element in `target` */
+export function ref(target: Ref) {
+  return litRef(target._set);
+}
@@ -0,0 +1,75 @@
+/** What createView() does when its tag is already defined by another view or element */
+export type TagConflictStrategy = 'warn' | 'suffix';
+
+/** Element classes keyed by tag, for a view's scoped registry */
+export type ScopedElements = Record<string, CustomElementConstructor>;
+
+/** ViewModel class an element was created from, to tell a re-import from a conflict */
+function viewModelOf(ctor: CustomElementConstructor): unknown {
+  return (ctor as { _viewModel?: unknown })._viewModel;
+}
+
+/**
+ * @internal
+ * Define `ctor` as `tag` in `registry` and return the tag it was defined as.
+ * A tag taken by the same ViewModel class (a module loaded twice) is reused.
+ * Taken by anything else, it's a dev warning or, with 'suffix', the first free
+ * `tag-2`, `tag-3`...
+ */
+export function defineElement(
+  registry: CustomElementRegistry,
+  tag: string,
+  ctor: CustomElementConstructor,
+  strategy: TagConflictStrategy = 'warn'
+): string {
+  const isFree = (candidate: string) => {
+    const existing = registry.get(candidate);
+    return !existing || viewModelOf(existing) === viewModelOf(ctor);
+  };
+
+  if (strategy === 'suffix') {
+    let candidate = tag;
+    for (let n = 2; !isFree(candidate); n++) candidate = `${tag}-${n}`;
+    if (!registry.get(candidate)) registry.define(candidate, ctor);
+    return candidate;
+  }
+
+  const existing = registry.get(tag);
+  if (!existing) {
+    registry.define(tag, ctor);
+  } else if (process.env.NODE_ENV !== 'production' && viewModelOf(existing) !== viewModelOf(ctor)) {
+    const name = (viewModelOf(ctor) as { name?: string } | undefined)?.name ?? ctor.name;
+    console.warn(
+      `[mantle-lit] <${tag}> is already defined by another class, so ${name} was not registered. ` +
+      `Pass tagConflict: 'suffix' to createView() to register it under a free tag.`
+    );
+  }
+  return tag;
+}
+
+/**
+ * @internal
+ * A registry for the child tags a view renders, attached to each of its shadow
+ * roots. Where scoped registries aren't available (older browsers without the
+ * polyfill, or the server) the elements are defined globally and undefined is returned.
+ */
+export function createScopedRegistry(name: string, elements: ScopedElements): CustomElementRegistry | undefined {
+  let registry: CustomElementRegistry | undefined;
+  try {
+    if (typeof CustomElementRegistry === 'function') registry = new CustomElementRegistry();
+  } catch {
+    // Illegal constructor: no scoped registry support
+  }
+
+  if (!registry && process.env.NODE_ENV !== 'production' && typeof window !== 'undefined') {
+    console.warn(
+      `[mantle-lit] ${name}: scoped custom element registries are not supported in this browser, ` +
+      `so its elements are defined globally. Load @webcomponents/scoped-custom-element-registry to scope them.`
+    );
+  }
+
+  for (const [tag, ctor] of Object.entries(elements)) {
+    defineElement(registry ?? customElements, tag, ctor);
+  }
+  return registry;
+}
@@ -0,0 +1,73 @@
+import { render, nothing, type RenderOptions } from 'lit-html';
+
+/** Where a View renders: a shadow root, or the element or container itself */
+export type RenderRoot = HTMLElement | ShadowRoot;
+
+/**
+ * Turns what a View's `render()` returns into DOM. The View lifecycle, MobX and
+ * behaviors don't depend on it, so a different template library can be plugged in
+ * through the `renderer` option of createView() and mountView().
+ */
+export interface Renderer {
+  /** Render (or update) `result` into `root` */
+  render(result: unknown, root: RenderRoot): void;
+  /** The View was disconnected (false) or connected again (true) without being cleared */
+  setConnected?(root: RenderRoot, connected: boolean): void;
+  /** Remove what was rendered, when a mountView() handle is unmounted */
+  clear?(root: RenderRoot): void;
+}
+
+/** The default renderer: lit-html templates */
+export const litRenderer: Renderer = {
+  render(result, root) {
+    render(result, root, { creationScope: creationScope(root) });
+  },
+  setConnected(root, connected) {
+    // lit-html keeps its root part on the container (also after hydration)
+    (root as any)._$litPart$?.setConnected(connected);
+  },
+  clear(root) {
+    render(nothing, root);
+  },
+};
+
+/**
+ * A renderer without templates: render() returns DOM nodes (or a string, shown as
+ * text), which replace the root's content on every render. Return `[]` to render nothing.
+ *
+ * @example
+ * ```ts
+ * class ClockView extends View {
+ *   time = new Date().toLocaleTimeString();
+ *
+ *   render() {
+ *     const p = document.createElement('p');
+ *     p.textContent = this.time;
+ *     return p;
+ *   }
+ * }
+ *
+ * createView(ClockView, { tag: 'x-clock', renderer: domRenderer });
+ * ```
+ */
+export const domRenderer: Renderer = {
+  render(result, root) {
+    const items = result == null ? [] : Array.isArray(result) ? result : [result];
+    root.replaceChildren(...items.map((item) => (item instanceof Node ? item : String(item))));
+  },
+  clear(root) {
+    root.replaceChildren();
+  },
+};
+
+/**
+ * Templates are cloned through the shadow root's scoped registry, if it has one
+ * (see the `elements` option), so child tags resolve there.
+ */
+function creationScope(root: RenderRoot): RenderOptions['creationScope'] {
+  // @webcomponents/scoped-custom-element-registry polyfill
+  if ('importNode' in root) return root as { importNode(node: Node, deep?: boolean): Node };
+  const registry = (root as { customElementRegistry?: CustomElementRegistry | null }).customElementRegistry;
+  if (!registry || registry === customElements) return undefined;
+  return { importNode: (node) => document.importNode(node, { customElementRegistry: registry }) };
+}
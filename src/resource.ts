@@ -0,0 +1,136 @@
+import { Behavior, createBehavior } from './behavior';
+import { reportError } from './config';
+
+export type ResourceStatus = 'idle' | 'loading' | 'success' | 'error';
+
+/** Loads the value for `key`. Pass `signal` on to fetch() so stale requests are cancelled. */
+export type ResourceLoader<K, T> = (key: K, context: { signal: AbortSignal }) => Promise<T>;
+
+export interface ResourceOptions<T> {
+  /** Value before the first load finishes */
+  initialValue?: T;
+  /** Debounce key changes by N milliseconds */
+  delay?: number;
+}
+
+/**
+ * Async data for a reactive key. Loads when mounted and again whenever the key
+ * changes, aborting the previous request. A `null` or `undefined` key skips loading
+ * and keeps the current value. Create it with withResource().
+ */
+export class ResourceBehavior<K = unknown, T = unknown> extends Behavior {
+  /** The last loaded value. Kept while a new key loads. */
+  value: T | undefined = undefined;
+  /** The error from the last load, if it failed */
+  error: unknown = undefined;
+  status: ResourceStatus = 'idle';
+
+  private _key!: () => K;
+  private _loader!: ResourceLoader<K, T>;
+  private _delay?: number;
+  private _controller?: AbortController;
+  // Key of the last finished load, so a remount with the same key doesn't load again
+  private _settledKey?: { key: K };
+
+  onCreate(key: () => K, loader: ResourceLoader<K, T>, options?: ResourceOptions<T>) {
+    this._key = key;
+    this._loader = loader;
+    this._delay = options?.delay;
+    this.value = options?.initialValue;
+  }
+
+  onMount() {
+    const key = this._key();
+    if (!this._settledKey || !Object.is(this._settledKey.key, key)) void this._load(key);
+    this.watch(this._key, (key) => void this._load(key), { delay: this._delay });
+  }
+
+  onUnmount() {
+    this._abort();
+  }
+
+  get loading(): boolean {
+    return this.status === 'loading';
+  }
+
+  /** Load the current key again */
+  refetch(): Promise<void> {
+    return this._load(this._key());
+  }
+
+  private async _load(key: K): Promise<void> {
+    this._abort();
+    if (key == null) {
+      // Skipped: keep the initial (or last loaded) value
+      this._settle('idle', this.value, undefined);
+      return;
+    }
+
+    const controller = new AbortController();
+    this._controller = controller;
+    this._setLoading();
+
+    try {
+      const value = await this._loader(key, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      this._settle('success', value, undefined, key);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      this._settle('error', this.value, e, key);
+      reportError(e, { phase: 'load', name: this.constructor.name, isBehavior: true });
+    }
+  }
+
+  private _abort(): void {
+    if (!this._controller) return;
+    this._controller.abort();
+    this._controller = undefined;
+    // The cancelled load never settles: whatever the key is on remount, load it again
+    this._settledKey = undefined;
+  }
+
+  private _setLoading(): void {
+    this.status = 'loading';
+    this.error = undefined;
+  }
+
+  private _settle(status: ResourceStatus, value: T | undefined, error: unknown, key?: K): void {
+    this.status = status;
+    this.value = value;
+    this.error = error;
+    this._settledKey = status === 'idle' ? undefined : { key: key as K };
+    this._controller = undefined;
+  }
+}
+
+const createResource = createBehavior(ResourceBehavior);
+
+/**
+ * Create a resource behavior: observable `value`, `error` and `status` for an async
+ * loader, reloaded when `key` changes. Stale requests are aborted, and failures
+ * are reported through the error handler.
+ *
+ * @example
+ * ```ts
+ * class UserView extends View {
+ *   @property() userId = '';
+ *
+ *   user = withResource(
+ *     () => this.userId || null,
+ *     (id, { signal }) => fetch(`/api/users/${id}`, { signal }).then(r => r.json())
+ *   );
+ *
+ *   render() {
+ *     if (this.user.status === 'error') return html`<p>Failed to load</p>`;
+ *     return html`<p>${this.user.value?.name ?? 'Loading…'}</p>`;
+ *   }
+ * }
+ * ```
+ */
+export function withResource<K, T>(
+  key: () => K,
+  loader: ResourceLoader<NonNullable<K>, T>,
+  options?: ResourceOptions<T>
+): ResourceBehavior<K, T> {
+  return createResource(key, loader as ResourceLoader<unknown, unknown>, options) as ResourceBehavior<K, T>;
+}
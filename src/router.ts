@@ -0,0 +1,603 @@
+import { runInAction } from 'mobx';
+import { Behavior, createBehavior } from './behavior';
+import { reportError } from './config';
+import { createContext } from './context';
+import { View, createView, property, html, type ViewModel } from './mantle';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Routes
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Query string values by name. Repeated names keep the last value. */
+export type Query = Record<string, string>;
+
+/**
+ * A route. `path` is relative to the parent route and may have `:name` params and a
+ * trailing `*` for the rest of the URL. Routes without a view group their children
+ * under a path prefix.
+ */
+export interface RouteDefinition {
+  path: string;
+  /** Element class (from createView) to mount in the outlet */
+  view?: CustomElementConstructor;
+  /** Import the element class the first time the route matches */
+  load?: () => Promise<CustomElementConstructor | { default: CustomElementConstructor }>;
+  /** Routes below this one, rendered by an outlet inside its view */
+  children?: RouteDefinition[];
+}
+
+type ParamName<S extends string> = S extends `:${infer Name}` ? Name : S extends '*' ? '*' : never;
+type PathParamNames<P extends string> = P extends `${infer Head}/${infer Tail}`
+  ? ParamName<Head> | PathParamNames<Tail>
+  : ParamName<P>;
+
+/** Params of a path pattern: `RouteParams<'/users/:id'>` is `{ id: string }` */
+export type RouteParams<P extends string> = string extends P
+  ? Record<string, string>
+  : { [K in PathParamNames<P>]: string };
+
+/**
+ * Props an outlet sets on the view it mounts. Type a routed view with its full path.
+ *
+ * @example
+ * ```ts
+ * class UserPage extends View<RouteProps<'/users/:id', { tab: string }>> {
+ *   render() {
+ *     return html`User ${this.props.params.id}, tab ${this.props.query.tab ?? 'posts'}`;
+ *   }
+ * }
+ * ```
+ */
+export interface RouteProps<P extends string = string, Q extends Query = Query> {
+  params: RouteParams<P>;
+  query: Partial<Q>;
+}
+
+/** A matched route and the params of the URL up to it */
+export class RouteMatch {
+  constructor(
+    readonly route: RouteDefinition,
+    readonly params: Record<string, string>,
+  ) {}
+}
+
+/** Where the router is, or is about to go */
+export interface RouteLocation {
+  /** Path and query string */
+  url: string;
+  path: string;
+  query: Query;
+  params: Record<string, string>;
+}
+
+/** Matched routes for `path`, outermost first. Empty when nothing matches. */
+function matchRoutes(
+  routes: RouteDefinition[],
+  segments: string[],
+  params: Record<string, string> = {},
+): RouteMatch[] | null {
+  for (const route of routes) {
+    const result = matchPrefix(splitPath(route.path), segments);
+    if (!result) continue;
+    const merged = { ...params, ...result.params };
+    const own = route.view || route.load ? [new RouteMatch(route, merged)] : [];
+
+    if (route.children) {
+      const children = matchRoutes(route.children, result.rest, merged);
+      if (children) return [...own, ...children];
+    }
+    if (result.rest.length === 0 && own.length) return own;
+  }
+  return null;
+}
+
+/** Match `pattern` against the start of `segments` */
+function matchPrefix(pattern: string[], segments: string[]): { params: Record<string, string>; rest: string[] } | null {
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    const part = pattern[i];
+    if (part === '*') {
+      params['*'] = segments.slice(i).join('/');
+      return { params, rest: [] };
+    }
+    const segment = segments[i];
+    if (segment === undefined) return null;
+    if (part.startsWith(':')) params[part.slice(1)] = decodeURIComponent(segment);
+    else if (part !== segment) return null;
+  }
+  return { params, rest: segments.slice(pattern.length) };
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+/** Split a URL into its path and query */
+function parseUrl(url: string): { path: string; query: Query } {
+  const [pathname, search = ''] = url.split('#')[0].split('?');
+  const path = '/' + splitPath(pathname).join('/');
+  return { path, query: Object.fromEntries(new URLSearchParams(search)) };
+}
+
+function buildUrl(to: string, query?: Query): string {
+  if (!query) return to;
+  const search = new URLSearchParams(query).toString();
+  return search ? `${to.split('?')[0]}?${search}` : to.split('?')[0];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// History
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Where the router reads and writes the URL */
+export interface RouterHistory {
+  /** Current path and query, e.g. `/users/1?tab=posts` */
+  readonly url: string;
+  push(url: string): void;
+  replace(url: string): void;
+  back(): void;
+  /** Call `listener` when the URL changes without push() or replace(): back, forward. Returns an unsubscribe function. */
+  listen(listener: () => void): () => void;
+  /** The `href` for a link to `url` */
+  href(url: string): string;
+  /** The URL a click on `anchor` navigates to, or undefined to leave the click to the browser */
+  linkUrl?(anchor: HTMLAnchorElement): string | undefined;
+}
+
+class BrowserHistory implements RouterHistory {
+  get url(): string {
+    return location.pathname + location.search;
+  }
+
+  push(url: string): void {
+    history.pushState(null, '', url);
+  }
+
+  replace(url: string): void {
+    history.replaceState(null, '', url);
+  }
+
+  back(): void {
+    history.back();
+  }
+
+  listen(listener: () => void): () => void {
+    window.addEventListener('popstate', listener);
+    return () => window.removeEventListener('popstate', listener);
+  }
+
+  href(url: string): string {
+    return url;
+  }
+
+  linkUrl(anchor: HTMLAnchorElement): string | undefined {
+    if (anchor.origin !== location.origin) return undefined;
+    // Links to a fragment of this page scroll, as usual
+    if (anchor.hash && anchor.pathname === location.pathname && anchor.search === location.search) return undefined;
+    return anchor.pathname + anchor.search;
+  }
+}
+
+class HashHistory implements RouterHistory {
+  get url(): string {
+    return location.hash.slice(1) || '/';
+  }
+
+  push(url: string): void {
+    history.pushState(null, '', '#' + url);
+  }
+
+  replace(url: string): void {
+    history.replaceState(null, '', '#' + url);
+  }
+
+  back(): void {
+    history.back();
+  }
+
+  // Also fires for `<a href="#/...">` clicks, so links need no handling
+  listen(listener: () => void): () => void {
+    window.addEventListener('hashchange', listener);
+    return () => window.removeEventListener('hashchange', listener);
+  }
+
+  href(url: string): string {
+    return '#' + url;
+  }
+}
+
+class MemoryHistory implements RouterHistory {
+  private _entries: string[];
+  private _index = 0;
+  private _listeners = new Set<() => void>();
+
+  constructor(url: string) {
+    this._entries = [url];
+  }
+
+  get url(): string {
+    return this._entries[this._index];
+  }
+
+  /** Every URL in the history, oldest first */
+  get entries(): readonly string[] {
+    return this._entries;
+  }
+
+  push(url: string): void {
+    this._entries.splice(this._index + 1, Infinity, url);
+    this._index++;
+  }
+
+  replace(url: string): void {
+    this._entries[this._index] = url;
+  }
+
+  back(): void {
+    this._go(-1);
+  }
+
+  forward(): void {
+    this._go(1);
+  }
+
+  listen(listener: () => void): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  href(url: string): string {
+    return url;
+  }
+
+  private _go(delta: number): void {
+    const index = this._index + delta;
+    if (index < 0 || index >= this._entries.length) return;
+    this._index = index;
+    for (const listener of Array.from(this._listeners)) listener();
+  }
+}
+
+/** URLs from the History API: `/users/1` */
+export function browserHistory(): RouterHistory {
+  return new BrowserHistory();
+}
+
+/** URLs in the location hash: `/#/users/1`. Needs no server support. */
+export function hashHistory(): RouterHistory {
+  return new HashHistory();
+}
+
+/** URLs kept in memory, for tests and server rendering. back() and forward() act like the browser's buttons. */
+export function memoryHistory(url = '/'): RouterHistory & { readonly entries: readonly string[]; forward(): void } {
+  return new MemoryHistory(url);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// withRouter
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RouterOptions {
+  /** `'history'` (default) for History API URLs, `'hash'` for `#/path` URLs */
+  mode?: 'history' | 'hash';
+  /** Custom history, such as memoryHistory() in tests. Overrides `mode`. */
+  history?: RouterHistory;
+}
+
+export interface NavigateOptions {
+  /** Replace the current history entry instead of adding one */
+  replace?: boolean;
+  /** Query to use instead of the one in `to` */
+  query?: Query;
+}
+
+/** @internal What the router needs from an outlet, to run the guards of the view it shows */
+interface RoutedOutlet {
+  readonly depth: number;
+  readonly match: RouteMatch | undefined;
+  readonly element: HTMLElement | null;
+}
+
+// Setup that stays as is: holding it in a class instance keeps it out of MobX
+class RouterSetup {
+  outlets = new Set<RoutedOutlet>();
+  constructor(readonly routes: RouteDefinition[], readonly history: RouterHistory) {}
+}
+
+/**
+ * The current route, as observables, and navigation. Create it with withRouter()
+ * and render a `<mantle-outlet>` for the matched views.
+ */
+export class RouterBehavior extends Behavior {
+  /** Current path, without the query */
+  path = '/';
+  query: Query = {};
+  /** Matched routes with views, outermost first. Outlets render one each. */
+  matches: RouteMatch[] = [];
+
+  private _setup!: RouterSetup;
+  // Latest navigation, so an older one waiting on a guard doesn't finish after it
+  private _navigation = 0;
+
+  onCreate(routes: RouteDefinition[], options?: RouterOptions) {
+    const history = options?.history ?? (typeof window === 'undefined'
+      ? memoryHistory()
+      : options?.mode === 'hash' ? hashHistory() : browserHistory());
+    this._setup = new RouterSetup(routes, history);
+    this._apply(history.url);
+  }
+
+  onMount() {
+    const { history } = this._setup;
+    // The URL may have changed while unmounted
+    if (history.url !== this.url) this._apply(history.url);
+
+    const unlisten = history.listen(() => void this._onHistoryChange());
+    const host = this._host;
+    if (!history.linkUrl || !host) return unlisten;
+    host.addEventListener('click', this._onClick as EventListener);
+    return () => {
+      unlisten();
+      host.removeEventListener('click', this._onClick as EventListener);
+    };
+  }
+
+  /** Current path and query */
+  get url(): string {
+    return buildUrl(this.path, this.query);
+  }
+
+  /** Params of all matched routes */
+  get params(): Record<string, string> {
+    return this.matches[this.matches.length - 1]?.params ?? {};
+  }
+
+  /** The innermost matched route */
+  get route(): RouteDefinition | undefined {
+    return this.matches[this.matches.length - 1]?.route;
+  }
+
+  get location(): RouteLocation {
+    return { url: this.url, path: this.path, query: this.query, params: this.params };
+  }
+
+  /**
+   * Go to `to`, an absolute path with an optional query. Resolves to false if a
+   * view's beforeLeave() kept the router where it is, or a later navigation won.
+   */
+  navigate(to: string, options?: NavigateOptions): Promise<boolean> {
+    const url = buildUrl(to, options?.query);
+    const navigation = ++this._navigation;
+    const finish = (allowed: boolean) => {
+      if (!allowed || navigation !== this._navigation) return false;
+      const { history } = this._setup;
+      if (options?.replace) history.replace(url);
+      else if (url !== history.url) history.push(url);
+      this._apply(url);
+      return true;
+    };
+    const allowed = this._canLeave(url);
+    return allowed instanceof Promise ? allowed.then(finish) : Promise.resolve(finish(allowed));
+  }
+
+  back(): void {
+    this._setup.history.back();
+  }
+
+  /** The `href` for a link to `to`, for the current history mode */
+  href(to: string, query?: Query): string {
+    return this._setup.history.href(buildUrl(to, query));
+  }
+
+  /** Params if the current path matches `pattern` exactly, otherwise null */
+  match<P extends string>(pattern: P): RouteParams<P> | null {
+    const result = matchPrefix(splitPath(pattern), splitPath(this.path));
+    return result && result.rest.length === 0 ? result.params as RouteParams<P> : null;
+  }
+
+  /** @internal */
+  _addOutlet(outlet: RoutedOutlet): void {
+    this._setup.outlets.add(outlet);
+  }
+
+  /** @internal */
+  _removeOutlet(outlet: RoutedOutlet): void {
+    this._setup.outlets.delete(outlet);
+  }
+
+  private _apply(url: string): void {
+    const { path, query } = parseUrl(url);
+    this.path = path;
+    this.query = query;
+    this.matches = matchRoutes(this._setup.routes, splitPath(path)) ?? [];
+  }
+
+  /** Ask the views that `url` replaces whether they can be left */
+  private _canLeave(url: string): boolean | Promise<boolean> {
+    const { path, query } = parseUrl(url);
+    const matches = matchRoutes(this._setup.routes, splitPath(path)) ?? [];
+    const to: RouteLocation = { url, path, query, params: matches[matches.length - 1]?.params ?? {} };
+    const from = this.location;
+
+    const results: (boolean | void | Promise<boolean | void>)[] = [];
+    for (const outlet of this._setup.outlets) {
+      if (!outlet.match || matches[outlet.depth]?.route === outlet.match.route) continue;
+      const vm = (outlet.element as { _vm?: ViewModel } | null)?._vm;
+      if (!vm?.beforeLeave) continue;
+      try {
+        results.push(vm.beforeLeave(to, from));
+      } catch (e) {
+        reportGuardError(e, vm);
+      }
+    }
+
+    if (!results.some((result) => result instanceof Promise)) return !results.includes(false);
+    return Promise.all(results.map((result) => Promise.resolve(result).catch((e) => reportGuardError(e)))).then(
+      (settled) => !settled.includes(false)
+    );
+  }
+
+  /** Back or forward: the URL already changed, so a guard that says no puts it back */
+  private async _onHistoryChange(): Promise<void> {
+    const { history } = this._setup;
+    const url = history.url;
+    if (url === this.url) return;
+    const navigation = ++this._navigation;
+    const from = this.url;
+    const allowed = await this._canLeave(url);
+    if (navigation !== this._navigation) return;
+    if (allowed) this._apply(url);
+    else history.push(from);
+  }
+
+  // Links in the host's DOM (and its shadow roots) navigate without a page load
+  private _onClick = (e: MouseEvent): void => {
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    const anchor = e.composedPath().find(
+      (node): node is HTMLAnchorElement => (node as Element).localName === 'a' && (node as Element).hasAttribute('href')
+    );
+    if (!anchor || (anchor.target && anchor.target !== '_self') || anchor.hasAttribute('download')) return;
+    const url = this._setup.history.linkUrl?.(anchor);
+    if (url === undefined) return;
+    e.preventDefault();
+    void this.navigate(url);
+  };
+}
+
+function reportGuardError(error: unknown, vm?: ViewModel): void {
+  reportError(error, { phase: 'beforeLeave', name: vm?.constructor.name ?? 'View', isBehavior: false });
+}
+
+const createRouter = createBehavior(RouterBehavior);
+
+/**
+ * Create a router behavior: the current `path`, `query`, `params` and matched
+ * routes as observables, updated by navigate(), links and the back button.
+ * `<mantle-outlet>` elements render the matched views.
+ *
+ * @example
+ * ```ts
+ * class App extends View {
+ *   router = withRouter([
+ *     { path: '/', view: HomePage },
+ *     { path: '/users/:id', load: () => import('./UserPage').then((m) => m.UserPage) },
+ *     { path: '*', view: NotFoundPage },
+ *   ]);
+ *
+ *   render() {
+ *     return html`
+ *       <nav><a href="/">Home</a> <a href="/users/1">Me</a></nav>
+ *       <mantle-outlet .router=${this.router}></mantle-outlet>
+ *     `;
+ *   }
+ * }
+ * ```
+ */
+export function withRouter(routes: RouteDefinition[], options?: RouterOptions): RouterBehavior {
+  if (typeof customElements !== 'undefined') defineRouterOutlet();
+  return createRouter(routes, options);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Outlet
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The router of the nearest outlet above, for routed views: `router = this.consume(RouterContext)` */
+export const RouterContext = createContext<RouterBehavior | undefined>(Symbol('mantle-lit:router'));
+
+// How many matches the outlets above have rendered
+const OutletDepthContext = createContext<number>(Symbol('mantle-lit:outlet-depth'));
+
+// Element classes loaded by routes' load()
+const loadedViews = new WeakMap<RouteDefinition, CustomElementConstructor>();
+
+/**
+ * Renders the view of one matched route: the outermost for the top outlet, the
+ * next one for an outlet inside that view, and so on. Props are `{ params, query }`.
+ */
+class RouterOutletView extends View {
+  /** Router to follow. Outlets inside a routed view find it on their own. */
+  @property({ attribute: false }) router?: RouterBehavior;
+
+  /** The mounted view's element */
+  element: HTMLElement | null = null;
+
+  private _contextRouter = this.consume(RouterContext);
+  private _parentDepth = this.consume(OutletDepthContext);
+  // Latest load, so a slow import doesn't replace a newer view
+  private _loads = 0;
+
+  get activeRouter(): RouterBehavior | undefined {
+    return this.router ?? this._contextRouter.value;
+  }
+
+  get depth(): number {
+    return this._parentDepth.value ?? 0;
+  }
+
+  get match(): RouteMatch | undefined {
+    return this.activeRouter?.matches[this.depth];
+  }
+
+  get routeProps(): RouteProps | undefined {
+    const router = this.activeRouter;
+    return this.match && router ? { params: this.match.params, query: router.query } : undefined;
+  }
+
+  onCreate() {
+    this.provide(RouterContext, () => this.activeRouter);
+    this.provide(OutletDepthContext, () => this.depth + 1);
+    this.watch(() => this.match?.route, (route) => this._show(route), { fireImmediately: true });
+    this.watch(() => this.routeProps, (props) => {
+      if (props && this.element) (this.element as { props?: RouteProps }).props = props;
+    });
+  }
+
+  onMount() {
+    // Let the router ask the mounted view before leaving it
+    this.watch(() => this.activeRouter, (router, previous) => {
+      previous?._removeOutlet(this);
+      router?._addOutlet(this);
+    }, { fireImmediately: true });
+    return () => this.activeRouter?._removeOutlet(this);
+  }
+
+  render() {
+    return html`${this.element}`;
+  }
+
+  private _show(route: RouteDefinition | undefined): void {
+    const load = ++this._loads;
+    const mount = (ViewClass: CustomElementConstructor | undefined) => {
+      if (load !== this._loads) return;
+      const element = ViewClass ? new ViewClass() : null;
+      if (element) (element as { props?: RouteProps }).props = this.routeProps;
+      runInAction(() => { this.element = element; });
+    };
+
+    const ViewClass = route && (route.view ?? loadedViews.get(route));
+    if (!route || ViewClass || !route.load) {
+      mount(ViewClass);
+      return;
+    }
+    route.load().then(
+      (loaded) => {
+        const ViewClass = 'default' in loaded ? loaded.default : loaded;
+        loadedViews.set(route, ViewClass);
+        mount(ViewClass);
+      },
+      (e) => reportError(e, { phase: 'load', name: this.constructor.name, isBehavior: false }),
+    );
+  }
+}
+
+let RouterOutlet: CustomElementConstructor | undefined;
+
+/**
+ * Define `<mantle-outlet>`, which renders the view of the current route, and return
+ * its element class. withRouter() calls it, so importing the router doesn't need
+ * `customElements` (routers work in Node with memoryHistory()).
+ */
+export function defineRouterOutlet(): CustomElementConstructor {
+  return (RouterOutlet ??= createView(RouterOutletView, { tag: 'mantle-outlet', shadow: false }));
+}
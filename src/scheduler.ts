@@ -0,0 +1,72 @@
+import { globalConfig } from './config';
+
+/** @internal A View with a render waiting in the queue */
+export interface RenderTarget {
+  /** Element the View renders for, which orders parents before children */
+  readonly host: Node;
+  _performRender(): void;
+}
+
+const queue = new Set<RenderTarget>();
+let pending: { promise: Promise<void>; resolve: () => void } | undefined;
+let flushing = false;
+
+/**
+ * @internal
+ * Queue a re-render. Renders are batched into the next microtask (or animation
+ * frame, see `configure({ scheduler })`) and run parents before children.
+ */
+export function scheduleRender(target: RenderTarget): void {
+  queue.add(target);
+  if (pending) return;
+
+  let resolve!: () => void;
+  pending = { promise: new Promise<void>((r) => (resolve = r)), resolve };
+  if (globalConfig.scheduler === 'animationFrame' && typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(() => flushRenders());
+  } else {
+    queueMicrotask(() => flushRenders());
+  }
+}
+
+/** @internal Drop a queued render, e.g. when the element disconnects */
+export function cancelRender(target: RenderTarget): void {
+  queue.delete(target);
+}
+
+/** @internal Resolves once the target has no render queued */
+export function whenRendered(target: RenderTarget): Promise<boolean> {
+  if (!queue.has(target) || !pending) return Promise.resolve(true);
+  return pending.promise.then(() => true);
+}
+
+/** @internal Run queued renders now. Returns false if there were none. */
+export function flushRenders(): boolean {
+  if (!pending || flushing) return false;
+  flushing = true;
+  try {
+    // Renders can queue more (a parent passing new props to a child), so go until empty
+    while (queue.size > 0) {
+      const batch = Array.from(queue, (target) => ({ target, depth: depthOf(target.host) }));
+      batch.sort((a, b) => a.depth - b.depth);
+      for (const { target } of batch) {
+        // Already rendered or cancelled in this pass
+        if (!queue.delete(target)) continue;
+        target._performRender();
+      }
+    }
+  } finally {
+    flushing = false;
+    const done = pending;
+    pending = undefined;
+    done.resolve();
+  }
+  return true;
+}
+
+/** Number of ancestors, crossing shadow roots */
+function depthOf(node: Node): number {
+  let depth = 0;
+  for (let n: Node | null = node; n; n = n.parentNode ?? (n as ShadowRoot).host ?? null) depth++;
+  return depth;
+}
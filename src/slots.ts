@@ -0,0 +1,105 @@
+import { Behavior, createBehavior } from './behavior';
+
+/** What the host's light DOM assigns to one slot */
+export class SlotContent {
+  constructor(
+    /** Assigned elements */
+    readonly elements: readonly Element[],
+    /** Assigned nodes, including text (and whitespace) nodes */
+    readonly nodes: readonly Node[],
+  ) {}
+}
+
+const EMPTY = new SlotContent([], []);
+
+/**
+ * The content assigned to the `<slot>`s in a view's shadow root, kept up to date
+ * through `slotchange`. Create it with withSlots().
+ */
+export class SlotsBehavior extends Behavior {
+  /** Content of each rendered slot by name (`''` for the default slot) */
+  assigned: Record<string, SlotContent> = {};
+
+  // Arrow functions rather than methods: methods are actions, and reads in actions aren't tracked
+
+  /** Elements assigned to the slot named `name` (default: the default slot) */
+  elements = (name = ''): readonly Element[] => (this.assigned[name] ?? EMPTY).elements;
+
+  /** Nodes assigned to the slot named `name`, including text nodes */
+  nodes = (name = ''): readonly Node[] => (this.assigned[name] ?? EMPTY).nodes;
+
+  /** Whether any element, or non-whitespace text, is assigned to the slot named `name` */
+  has = (name = ''): boolean => (this.assigned[name] ?? EMPTY).nodes.some(
+    (node) => node.nodeType === Node.ELEMENT_NODE || !!node.textContent?.trim()
+  );
+
+  onMount() {
+    const root = (this._host as Element | undefined)?.shadowRoot;
+    if (!root) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn('[mantle-lit] withSlots() needs a view with a shadow root (shadow: true).');
+      }
+      return;
+    }
+    // Light DOM children may have changed while unmounted
+    this._read(root);
+    // slotchange bubbles (but isn't composed), so the shadow root sees every slot's
+    const onSlotChange = () => this._read(root);
+    root.addEventListener('slotchange', onSlotChange);
+    return () => root.removeEventListener('slotchange', onSlotChange);
+  }
+
+  /** Read every slot in `root`, replacing only the entries that changed */
+  private _read(root: ShadowRoot): void {
+    const seen = new Set<string>();
+    for (const slot of Array.from(root.querySelectorAll('slot'))) {
+      // Only the first slot with a name gets content
+      if (seen.has(slot.name)) continue;
+      seen.add(slot.name);
+      const nodes = slot.assignedNodes();
+      const current = this.assigned[slot.name];
+      if (current && sameNodes(current.nodes, nodes)) continue;
+      this.assigned[slot.name] = new SlotContent(slot.assignedElements(), nodes);
+    }
+    // Slots that are no longer rendered
+    for (const name of Object.keys(this.assigned)) {
+      if (!seen.has(name)) delete this.assigned[name];
+    }
+  }
+}
+
+function sameNodes(a: readonly Node[], b: readonly Node[]): boolean {
+  return a.length === b.length && a.every((node, i) => node === b[i]);
+}
+
+const createSlots = createBehavior(SlotsBehavior);
+
+/**
+ * Create a slots behavior: the elements and nodes assigned to each `<slot>` in the
+ * view's shadow root, as observable state. Render and watchers update when the
+ * light DOM children change. Assigned nodes aren't flattened: a slot forwarded
+ * into another view's slot shows up as the `<slot>` element. Only rendered slots
+ * have content, so keep a slot rendered (and hide its wrapper) to check it.
+ *
+ * @example
+ * ```ts
+ * class Tabs extends View {
+ *   slots = withSlots();
+ *
+ *   get tabs() {
+ *     return this.slots.elements('tab').filter((el) => el.localName === 'x-tab');
+ *   }
+ *
+ *   render() {
+ *     return html`
+ *       <nav><slot name="tab"></slot></nav>
+ *       <p>${this.tabs.length} tabs</p>
+ *       <footer ?hidden=${!this.slots.has('footer')}><slot name="footer"></slot></footer>
+ *     `;
+ *   }
+ * }
+ * ```
+ */
+export function withSlots(): SlotsBehavior {
+  return createSlots();
+}
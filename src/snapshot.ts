@@ -0,0 +1,91 @@
+import { runInAction, toJS, isObservableProp, isComputedProp } from 'mobx';
+import { isBehavior } from './behavior';
+import { isPlainData } from './hydrate';
+
+/** Observable state of a View or Behavior as JSON-safe data, keyed by field */
+export type Snapshot = Record<string, unknown>;
+
+/** Converts a field that isn't plain data (a Date, Map, class instance...) to and from JSON */
+export interface FieldSerializer<T = any> {
+  serialize(value: T): unknown;
+  /** `current` is the field's value before the snapshot is applied */
+  deserialize(data: unknown, current: T): T;
+}
+
+/**
+ * Per-field serializers, set as `static serializers` on a View or Behavior class.
+ *
+ * @example
+ * ```ts
+ * class Editor extends View {
+ *   savedAt = new Date();
+ *   tags = new Set<string>();
+ *
+ *   static serializers: Serializers<Editor> = {
+ *     savedAt: { serialize: (d) => d.toISOString(), deserialize: (s) => new Date(s as string) },
+ *     tags: { serialize: (t) => [...t], deserialize: (a) => new Set(a as string[]) },
+ *   };
+ * }
+ * ```
+ */
+export type Serializers<T> = { [K in keyof T]?: FieldSerializer<T[K]> };
+
+function serializersOf(target: object): Record<string, FieldSerializer | undefined> {
+  return (target.constructor as { serializers?: Record<string, FieldSerializer> }).serializers ?? {};
+}
+
+/** Observable data fields: not computed, not `_`-prefixed, not behaviors or functions */
+function isSnapshotField(target: any, key: string): boolean {
+  if (key.startsWith('_') || !isObservableProp(target, key) || isComputedProp(target, key)) return false;
+  const value = target[key];
+  return typeof value !== 'function' && !isBehavior(value);
+}
+
+/**
+ * The observable state of a View (or Behavior) as JSON-safe data. Fields holding
+ * anything other than primitives, arrays and plain objects are left out unless the
+ * class has a serializer for them. Props set by the parent aren't state and aren't
+ * included.
+ *
+ * @example
+ * ```ts
+ * sessionStorage.setItem('editor', JSON.stringify(getSnapshot(editor)));
+ * ```
+ */
+export function getSnapshot(target: object): Snapshot {
+  const serializers = serializersOf(target);
+  const snapshot: Snapshot = {};
+  for (const key of Object.keys(target)) {
+    if (!isSnapshotField(target, key)) continue;
+    const value = (target as any)[key];
+    const serializer = serializers[key];
+    if (serializer) snapshot[key] = serializer.serialize(value);
+    else if (isPlainData(value)) snapshot[key] = toJS(value);
+  }
+  return snapshot;
+}
+
+/**
+ * Set the fields in `snapshot` on a View (or Behavior), in one action. Keys that
+ * aren't state fields are ignored, so older snapshots still apply. Also takes the
+ * snapshot as a JSON string, such as the state a form-associated view passed to
+ * `formControl.setValue()`.
+ *
+ * @example
+ * ```ts
+ * onFormStateRestore(state: FormValue) {
+ *   if (typeof state === 'string') applySnapshot(this, state);
+ * }
+ * ```
+ */
+export function applySnapshot(target: object, snapshot: Snapshot | string): void {
+  const data: Snapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+  const serializers = serializersOf(target);
+  runInAction(() => {
+    for (const [key, value] of Object.entries(data)) {
+      if (!isSnapshotField(target, key)) continue;
+      const serializer = serializers[key];
+      (target as any)[key] = serializer ? serializer.deserialize(value, (target as any)[key]) : value;
+    }
+  });
+}
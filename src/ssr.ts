@@ -0,0 +1,159 @@
+import { customElements as shimCustomElements, HTMLElement as ShimHTMLElement } from '@lit-labs/ssr-dom-shim';
+import { ElementRenderer } from '@lit-labs/ssr/lib/element-renderer.js';
+import { LitElementRenderer } from '@lit-labs/ssr/lib/lit-element-renderer.js';
+import { renderValue, type RenderInfo } from '@lit-labs/ssr/lib/render-value.js';
+import { collectResult, type RenderResult } from '@lit-labs/ssr/lib/render-result.js';
+import type { TemplateResult } from 'lit-html';
+import type { ViewElementInfo } from './mantle';
+import { hydrationScript, type HydrationData } from './hydrate';
+
+// createView() extends HTMLElement and registers with customElements, so Node
+// needs the same minimal shim Lit uses. Import this module before your views.
+globalThis.customElements ??= shimCustomElements as unknown as CustomElementRegistry;
+globalThis.HTMLElement ??= ShimHTMLElement as unknown as typeof HTMLElement;
+
+/** Server-side view of a createView() element */
+interface ViewElement extends HTMLElement {
+  _renderOnServer(): TemplateResult | null;
+  _hydrationData(): HydrationData;
+  _assignProps(values: object): void;
+}
+
+function getViewInfo(ctor: unknown): ViewElementInfo | undefined {
+  return (ctor as { _mantleView?: ViewElementInfo } | undefined)?._mantleView;
+}
+
+/**
+ * @lit-labs/ssr ElementRenderer for createView() elements. Runs the ViewModel up to
+ * onCreate and renders its template; onMount and behavior mounts never run on the server.
+ * Props and state are embedded as JSON so the client can hydrate without re-rendering.
+ *
+ * Pass it to @lit-labs/ssr's `render()` to server-render mantle views inside Lit templates:
+ *
+ * @example
+ * ```ts
+ * import { render } from '@lit-labs/ssr';
+ * import { MantleElementRenderer } from 'mantle-lit/ssr';
+ *
+ * render(html`<x-todo></x-todo>`, { elementRenderers: [MantleElementRenderer] });
+ * ```
+ */
+export class MantleElementRenderer extends ElementRenderer {
+  static matchesClass(ctor: typeof HTMLElement): boolean {
+    return getViewInfo(ctor) !== undefined;
+  }
+
+  declare element: ViewElement;
+  private _info: ViewElementInfo;
+  private _result: TemplateResult | null = null;
+
+  constructor(tagName: string) {
+    super(tagName);
+    const ctor = customElements.get(tagName)!;
+    this.element = new ctor() as ViewElement;
+    this._info = getViewInfo(ctor)!;
+  }
+
+  connectedCallback(): void {
+    this._result = this.element._renderOnServer();
+  }
+
+  private *_content(renderInfo: RenderInfo): RenderResult {
+    if (this._result) yield* renderValue(this._result, renderInfo);
+    yield hydrationScript(this.element._hydrationData());
+  }
+
+  attributeChangedCallback(name: string, old: string | null, value: string | null): void {
+    (this.element as any).attributeChangedCallback?.(name, old, value);
+  }
+
+  renderShadow(renderInfo: RenderInfo): RenderResult | undefined {
+    return this._info.shadow ? this._renderShadowContent(renderInfo) : undefined;
+  }
+
+  /**
+   * Light DOM views render their template as children. @lit-labs/ssr only asks for
+   * this at the top level, so nested `shadow: false` views render on the client.
+   */
+  renderLight(renderInfo: RenderInfo): RenderResult | undefined {
+    return this._info.shadow ? undefined : this._content(renderInfo);
+  }
+
+  private *_renderShadowContent(renderInfo: RenderInfo): RenderResult {
+    const { styles } = this._info;
+    if (styles) {
+      yield '<style>';
+      for (const style of Array.isArray(styles) ? styles : [styles]) yield style.cssText;
+      yield '</style>';
+    }
+    yield* this._content(renderInfo);
+  }
+}
+
+/**
+ * Render a registered view to an HTML string with a declarative shadow root.
+ * Props are set on the element before onCreate, like `mount()`.
+ *
+ * @example
+ * ```ts
+ * import { renderToString } from 'mantle-lit/ssr';
+ * import './Counter';
+ *
+ * const html = await renderToString('x-counter', { initialCount: 5 });
+ * // <x-counter><template shadowrootmode="open"><style>…</style>…</template></x-counter>
+ * ```
+ */
+export async function renderToString(
+  tag: string,
+  props?: Record<string, unknown>,
+  renderInfo?: Partial<RenderInfo>
+): Promise<string> {
+  if (!getViewInfo(customElements.get(tag))) {
+    throw new Error(`[mantle-lit] renderToString: "${tag}" is not a registered view`);
+  }
+  return collectResult(renderView(tag, props, renderInfo));
+}
+
+function* renderView(
+  tag: string,
+  props: Record<string, unknown> | undefined,
+  options: Partial<RenderInfo> | undefined
+): RenderResult {
+  const renderInfo: RenderInfo = {
+    elementRenderers: [MantleElementRenderer, LitElementRenderer],
+    customElementInstanceStack: [],
+    customElementHostStack: [],
+    eventTargetStack: [],
+    slotStack: [],
+    deferHydration: false,
+    ...options,
+  };
+
+  const renderer = new MantleElementRenderer(tag);
+  if (props) renderer.element._assignProps(props);
+
+  // Root of the server event tree, so context requests can bubble like in @lit-labs/ssr
+  (renderer.element as any).__eventTargetParent = (globalThis as any).litServerRoot;
+  renderInfo.customElementInstanceStack.push(renderer);
+  renderInfo.eventTargetStack.push(renderer.element);
+
+  renderer.connectedCallback();
+  yield `<${tag}`;
+  yield* renderer.renderAttributes();
+  yield '>';
+
+  renderInfo.customElementHostStack.push(renderer);
+  const shadowContents = renderer.renderShadow(renderInfo);
+  if (shadowContents) {
+    yield `<template shadowrootmode="${renderer.shadowRootOptions.mode}">`;
+    yield* shadowContents;
+    yield '</template>';
+  }
+  renderInfo.customElementHostStack.pop();
+
+  yield* renderer.renderLight(renderInfo) ?? [];
+  yield `</${tag}>`;
+
+  renderInfo.customElementInstanceStack.pop();
+  renderInfo.eventTargetStack.pop();
+}
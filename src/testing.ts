@@ -0,0 +1,186 @@
+import { runInAction } from 'mobx';
+import { createView, type ViewModelClass, type ViewProps, type CreateViewOptions } from './mantle';
+import { globalConfig, type MantleErrorContext } from './config';
+import { createBehaviorEntry, mountBehavior, unmountBehavior } from './behavior';
+import { flushDelayedWatchers } from './watch';
+import { flushRenders } from './scheduler';
+
+/** A mounted test view. See createTestView(). */
+export interface TestView<T extends ViewModelClass> {
+  /** The custom element, connected to the document */
+  element: HTMLElement & InstanceType<T>;
+  /** The element's ViewModel */
+  vm: InstanceType<T>;
+  /** Remove the element, running onUnmount and behavior cleanup */
+  unmount(): void;
+}
+
+/** A mounted test behavior. See createTestBehavior(). */
+export interface TestBehavior<B> {
+  /** The behavior instance */
+  behavior: B;
+  /** Run onMount again after unmount() */
+  mount(): void;
+  /** Run the onMount cleanup and onUnmount */
+  unmount(): void;
+}
+
+/** A reportError() call recorded by captureErrors() */
+export interface CapturedError {
+  error: unknown;
+  context: MantleErrorContext;
+}
+
+// Test views and behaviors still mounted, for cleanup()
+const mounted = new Set<{ unmount(): void }>();
+
+// One test tag per ViewModel class created without options
+const testTags = new WeakMap<ViewModelClass, string>();
+let tagCount = 0;
+
+// Guards against renders and watchers that keep scheduling each other
+const MAX_FLUSHES = 100;
+
+/**
+ * Wait for pending work: runs `fn` (in an action), then runs queued renders and
+ * debounced `watch` callbacks right away instead of waiting for their frame or delay.
+ *
+ * @example
+ * ```ts
+ * await act(() => { vm.query = 'mantle'; });
+ * expect(vm.results).toHaveLength(3);
+ * ```
+ */
+export async function act(fn?: () => unknown): Promise<void> {
+  if (fn) await runInAction(fn);
+
+  for (let i = 0; i < MAX_FLUSHES; i++) {
+    await Promise.resolve();
+    const rendered = flushRenders();
+    if (!flushDelayedWatchers() && !rendered) return;
+  }
+  throw new Error(`[mantle-lit] act: renders or watchers still pending after ${MAX_FLUSHES} flushes`);
+}
+
+/**
+ * Mount a ViewModel in the document and wait for it to render.
+ * Props are set before onCreate, like `mount()`. Without a `tag` option a
+ * test-only tag is registered for the class.
+ *
+ * @example
+ * ```ts
+ * const { element, vm } = await createTestView(Counter, { initialCount: 5 });
+ * await act(() => vm.increment());
+ * expect(element.shadowRoot!.textContent).toContain('6');
+ * ```
+ */
+export async function createTestView<T extends ViewModelClass>(
+  VMClass: T,
+  props?: ViewProps<InstanceType<T>>,
+  options?: Partial<CreateViewOptions<T>> & { container?: Element }
+): Promise<TestView<T>> {
+  const { container = document.body, ...viewOptions } = options ?? {};
+  const tag = viewOptions.tag ?? testTagFor(VMClass, viewOptions);
+  if (!customElements.get(tag)) createView(VMClass, { ...viewOptions, tag });
+
+  const element = document.createElement(tag) as HTMLElement & InstanceType<T>;
+  // Set on the ViewModel so undeclared fields can be seeded too
+  const vm = (element as any)._vm as InstanceType<T>;
+  if (props) vm._assignProps(props);
+
+  const view: TestView<T> = {
+    element,
+    vm,
+    unmount() {
+      mounted.delete(view);
+      element.remove();
+    },
+  };
+  mounted.add(view);
+  container.appendChild(element);
+  await act();
+  return view;
+}
+
+/**
+ * Create a behavior and run its onMount without a View. It has no host element,
+ * so `emit()` does nothing and context consumers stay empty.
+ *
+ * @example
+ * ```ts
+ * const { behavior, unmount } = createTestBehavior(withWindowSize, 768);
+ * expect(behavior.isMobile).toBe(false);
+ * unmount();
+ * ```
+ */
+export function createTestBehavior<A extends any[], B>(
+  factory: (...args: A) => B,
+  ...args: A
+): TestBehavior<B> {
+  const entry = createBehaviorEntry(factory(...args) as object);
+  let isMounted = false;
+
+  const test: TestBehavior<B> = {
+    behavior: entry.instance,
+    mount() {
+      if (isMounted) return;
+      isMounted = true;
+      mounted.add(test);
+      mountBehavior(entry);
+    },
+    unmount() {
+      if (!isMounted) return;
+      isMounted = false;
+      mounted.delete(test);
+      unmountBehavior(entry);
+    },
+  };
+  test.mount();
+  return test;
+}
+
+/**
+ * Unmount every test view and behavior that is still mounted.
+ * Call it after each test.
+ *
+ * @example
+ * ```ts
+ * afterEach(cleanup);
+ * ```
+ */
+export function cleanup(): void {
+  for (const test of Array.from(mounted)) test.unmount();
+}
+
+/**
+ * Record errors passed to the error handler instead of logging them.
+ * Call `restore()` to put the previous `onError` back.
+ *
+ * @example
+ * ```ts
+ * const errors = captureErrors();
+ * await createTestView(Broken);
+ * expect(errors.calls[0].context.phase).toBe('onMount');
+ * errors.restore();
+ * ```
+ */
+export function captureErrors(): { calls: CapturedError[]; restore(): void } {
+  const previous = globalConfig.onError;
+  const calls: CapturedError[] = [];
+  globalConfig.onError = (error, context) => calls.push({ error, context });
+  return {
+    calls,
+    restore() {
+      globalConfig.onError = previous;
+    },
+  };
+}
+
+function testTagFor(VMClass: ViewModelClass, options: Partial<CreateViewOptions<any>>): string {
+  // Options can change the element, so only plain classes share a tag
+  const shareable = Object.keys(options).length === 0;
+  if (shareable && testTags.has(VMClass)) return testTags.get(VMClass)!;
+  const tag = `mantle-test-${++tagCount}`;
+  if (shareable) testTags.set(VMClass, tag);
+  return tag;
+}
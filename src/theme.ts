@@ -0,0 +1,181 @@
+import { styleMap } from 'lit-html/directives/style-map.js';
+import { createContext } from './context';
+import { View, createView, property, html, css, CSSResult } from './mantle';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tokens
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Token values by name, nested in groups */
+export type TokenValues = { [name: string]: string | number | TokenValues };
+
+/** Tokens in the shape of their values: `tokens.color.primary` */
+export type Tokens<T extends TokenValues> = {
+  readonly [K in keyof T]: T[K] extends TokenValues ? Tokens<T[K]> : Token;
+};
+
+/** Values a theme sets, in the shape of the tokens. Tokens left out keep their default. */
+export type ThemeValues<T extends TokenValues> = {
+  [K in keyof T]?: T[K] extends TokenValues ? ThemeValues<T[K]> : string | number;
+};
+
+export interface TokenOptions {
+  /** Prepended to every property name: `{ prefix: 'app' }` gives `--app-color-primary` */
+  prefix?: string;
+}
+
+/**
+ * A design token: a CSS custom property with a default value. Interpolate it in
+ * `css` (or an inline style) to use it: it becomes `var(--name, default)`.
+ */
+export class Token extends CSSResult {
+  constructor(
+    /** The custom property's name, like `--color-primary` */
+    readonly name: string,
+    readonly defaultValue: string,
+  ) {
+    super(`var(${name}, ${defaultValue})`);
+  }
+
+  toString(): string {
+    return this.cssText;
+  }
+}
+
+/**
+ * Define design tokens. Each value becomes a CSS custom property named after its
+ * path, with the value as its default. The result has the same shape, so a
+ * misspelled token in `css` is a compile error.
+ *
+ * @example
+ * ```ts
+ * export const tokens = defineTokens({
+ *   color: { background: '#fff', text: '#111', primary: '#6366f1' },
+ *   space: { sm: '4px', md: '8px' },
+ * });
+ *
+ * static styles = css`
+ *   button { color: ${tokens.color.primary}; padding: ${tokens.space.md}; }
+ * `;
+ * ```
+ */
+export function defineTokens<T extends TokenValues>(values: T, options?: TokenOptions): Tokens<T> {
+  const prefix = options?.prefix ? [options.prefix] : [];
+  return buildTokens(values, prefix) as Tokens<T>;
+}
+
+function buildTokens(values: TokenValues, path: string[]): Record<string, unknown> {
+  const tokens: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const name = [...path, kebab(key)];
+    tokens[key] = typeof value === 'object'
+      ? buildTokens(value, name)
+      : new Token(`--${name.join('-')}`, String(value));
+  }
+  return tokens;
+}
+
+function kebab(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Themes
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Values for every token, as custom property declarations. Apply it to a subtree
+ * with `<mantle-theme>`, or to a selector with `styles()`.
+ */
+export class Theme {
+  constructor(
+    readonly name: string,
+    /** Custom property declarations: `{ '--color-primary': '#6366f1' }` */
+    readonly vars: Readonly<Record<string, string>>,
+  ) {}
+
+  /** The token's value in this theme */
+  get(token: Token): string {
+    return this.vars[token.name] ?? token.defaultValue;
+  }
+
+  /** A stylesheet declaring this theme's values on `selector`, such as `:root` or `:host` */
+  styles(selector = ':root'): CSSResult {
+    const declarations = Object.entries(this.vars).map(([name, value]) => `  ${name}: ${value};`);
+    return new CSSResult(`${selector} {\n${declarations.join('\n')}\n}`);
+  }
+}
+
+/**
+ * Create a theme: values for `tokens`, type-checked against their shape. Tokens
+ * left out keep their default value, so switching themes never leaves a value
+ * from the previous one.
+ *
+ * @example
+ * ```ts
+ * export const light = createTheme(tokens, 'light');
+ * export const dark = createTheme(tokens, 'dark', {
+ *   color: { background: '#111', text: '#eee' },
+ * });
+ * ```
+ */
+export function createTheme<T extends TokenValues>(
+  tokens: Tokens<T>,
+  name: string,
+  values?: ThemeValues<T>,
+): Theme {
+  if (typeof customElements !== 'undefined') defineThemeProvider();
+  const vars: Record<string, string> = {};
+  collectVars(tokens as Record<string, unknown>, values as Record<string, unknown>, vars);
+  return new Theme(name, vars);
+}
+
+function collectVars(tokens: Record<string, unknown>, values: Record<string, unknown> | undefined, vars: Record<string, string>): void {
+  for (const [key, token] of Object.entries(tokens)) {
+    const value = values?.[key];
+    if (token instanceof Token) {
+      vars[token.name] = value === undefined ? token.defaultValue : String(value);
+    } else {
+      collectVars(token as Record<string, unknown>, value as Record<string, unknown> | undefined, vars);
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Provider
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The theme of the nearest `<mantle-theme>` above: `theme = this.consume(ThemeContext)` */
+export const ThemeContext = createContext<Theme | undefined>(Symbol('mantle-lit:theme'));
+
+/**
+ * Applies a theme's custom properties to its children. Setting `theme` switches
+ * the subtree over, so bind it to an observable to switch at runtime.
+ */
+class ThemeProviderView extends View {
+  @property({ attribute: false }) theme?: Theme;
+
+  static styles = css`
+    :host, div { display: contents; }
+  `;
+
+  onCreate() {
+    this.provide(ThemeContext, () => this.theme);
+  }
+
+  render() {
+    // Declared on a wrapper rather than the host, so server rendering includes them
+    return html`<div part="theme" data-theme=${this.theme?.name ?? ''} style=${styleMap(this.theme?.vars ?? {})}><slot></slot></div>`;
+  }
+}
+
+let ThemeProvider: CustomElementConstructor | undefined;
+
+/**
+ * Define `<mantle-theme>`, which scopes a theme's token values to its children, and
+ * return its element class. createTheme() calls it, so tokens and themes can be
+ * created without `customElements` (on the server).
+ */
+export function defineThemeProvider(): CustomElementConstructor {
+  return (ThemeProvider ??= createView(ThemeProviderView, { tag: 'mantle-theme' }));
+}
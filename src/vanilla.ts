@@ -0,0 +1,97 @@
+import { globalConfig } from './config';
+import { ViewController } from './controller';
+import { litRenderer, type Renderer } from './renderer';
+import { prepareViewModel, type ViewModel, type ViewModelClass, type ViewProps, type CSSResultGroup } from './mantle';
+
+export interface MountViewOptions<T extends ViewModelClass = ViewModelClass> {
+  /** Set on the ViewModel (or its `props`) before onCreate */
+  props?: ViewProps<InstanceType<T>>;
+  autoObservable?: boolean;
+  template?: (vm: InstanceType<T>) => unknown;
+  /** Fallback UI when rendering throws, if the ViewModel has no renderError() */
+  fallback?: (error: unknown, vm: InstanceType<T>) => unknown;
+  /** Adopted when the container is a shadow root (default: the ViewModel's styles) */
+  styles?: CSSResultGroup;
+  /** Turns render() results into DOM (default: lit-html) */
+  renderer?: Renderer;
+}
+
+/** A View mounted with mountView() */
+export interface ViewHandle<VM extends ViewModel = ViewModel> {
+  vm: VM;
+  /** Resolves when pending renders have run */
+  readonly updateComplete: Promise<boolean>;
+  /** Run unmount hooks and clear the container */
+  unmount(): void;
+}
+
+// Containers with a mounted View
+const mountedContainers = new WeakSet<HTMLElement | ShadowRoot>();
+
+/**
+ * Mount a ViewModel into a plain container, without registering a custom element.
+ * The lifecycle is the same as createView(): onCreate, batched renders, behaviors,
+ * onMount, and onUnmount when the handle is unmounted. The container is the host
+ * for emit(), provide() and consume().
+ *
+ * @example
+ * ```ts
+ * const widget = mountView(CounterView, document.getElementById('widget')!, {
+ *   props: { initialCount: 5 },
+ * });
+ * // later
+ * widget.unmount();
+ * ```
+ */
+export function mountView<T extends ViewModelClass>(
+  VMClass: T,
+  container: HTMLElement | ShadowRoot,
+  options: MountViewOptions<T> = {}
+): ViewHandle<InstanceType<T>> {
+  const {
+    props, autoObservable = globalConfig.autoObservable, template, fallback,
+    styles = VMClass.styles, renderer = litRenderer,
+  } = options;
+
+  if (typeof VMClass.prototype.render !== 'function' && !template) {
+    throw new Error(`[mantle-lit] ${VMClass.name}: Provide render() or template option`);
+  }
+  if (mountedContainers.has(container)) {
+    throw new Error(`[mantle-lit] mountView: the container already has a mounted view`);
+  }
+
+  const declaredProps = prepareViewModel(VMClass);
+  const host = container instanceof ShadowRoot ? container.host as HTMLElement : container;
+  const vm = new VMClass() as InstanceType<T>;
+  if (props) vm._assignProps(props);
+
+  // Sheets this mount added, removed again on unmount. Ones the root already had stay.
+  let adopted: CSSStyleSheet[] = [];
+  if (styles && container instanceof ShadowRoot) {
+    adopted = (Array.isArray(styles) ? styles : [styles])
+      .map(s => s.styleSheet)
+      .filter(sheet => !container.adoptedStyleSheets.includes(sheet));
+    container.adoptedStyleSheets = [...container.adoptedStyleSheets, ...adopted];
+  }
+
+  const controller = new ViewController(vm, host, { autoObservable, declaredProps, renderer, template, fallback });
+  mountedContainers.add(container);
+  controller.connect();
+  controller.mount(container);
+
+  return {
+    vm,
+    get updateComplete() {
+      return controller.updateComplete;
+    },
+    unmount() {
+      if (!controller.mounted) return;
+      controller.unmount();
+      renderer.clear?.(container);
+      if (adopted.length && container instanceof ShadowRoot) {
+        container.adoptedStyleSheets = container.adoptedStyleSheets.filter(sheet => !adopted.includes(sheet));
+      }
+      mountedContainers.delete(container);
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { Plugin } from 'vite';
+
+// `import { ..., createView, ... } from '<specifier>'`
+const CREATE_VIEW_IMPORT = /import\s*\{[^}]*\bcreateView\b[^}]*\}\s*from\s*(['"])([^'"]+)\1/;
+
+/**
+ * Vite plugin for hot module replacement of views. Modules that call createView()
+ * accept their own updates: when one is edited, its live elements switch to the
+ * new ViewModel, template and styles, keeping props and the state whose shape
+ * didn't change. Other modules reload as usual.
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * import { defineConfig } from 'vite';
+ * import { mantleHmr } from 'mantle-lit/vite';
+ *
+ * export default defineConfig({ plugins: [mantleHmr()] });
+ * ```
+ */
+export function mantleHmr(): Plugin {
+  return {
+    name: 'mantle-lit:hmr',
+    apply: 'serve',
+    transform(code, id) {
+      if (id.includes('/node_modules/') || !/\.[cm]?[jt]sx?(\?|$)/.test(id)) return;
+      const match = CREATE_VIEW_IMPORT.exec(code);
+      if (!match || !code.includes('createView(')) return;
+
+      // Same specifier as createView, so it's the same copy of mantle-lit
+      return {
+        code: `${code}
+import { enableHotReplacement as __mantleEnableHotReplacement } from ${JSON.stringify(match[2])};
+if (import.meta.hot) {
+  __mantleEnableHotReplacement();
+  import.meta.hot.accept();
+}
+`,
+        map: null,
+      };
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { reaction } from 'mobx';
+import { reportError, type MantleErrorContext, type WatchOptions } from './config';
+
+interface WatchEntry {
+  start(): void;
+  dispose?: () => void;
+  /** Created by onMount, which creates it again on the next mount */
+  mountScoped: boolean;
+}
+
+// Debounced watch callbacks waiting on their timer, so tests can run them early (see act())
+const pendingDelays = new Map<ReturnType<typeof setTimeout>, () => void>();
+
+/** Same timing as MobX's `delay` option, but tracked in pendingDelays */
+function delayScheduler(delay: number) {
+  return (run: () => void) => {
+    const timer = setTimeout(() => {
+      pendingDelays.delete(timer);
+      run();
+    }, delay);
+    pendingDelays.set(timer, run);
+  };
+}
+
+/** @internal Run pending debounced watch callbacks now. Returns false if there were none. */
+export function flushDelayedWatchers(): boolean {
+  if (pendingDelays.size === 0) return false;
+  for (const [timer, run] of Array.from(pendingDelays)) {
+    clearTimeout(timer);
+    pendingDelays.delete(timer);
+    run();
+  }
+  return true;
+}
+
+/**
+ * @internal
+ * Watchers owned by a View or Behavior. Suspended on unmount and resumed on the
+ * next mount, so watchers set up once in onCreate survive the element being moved.
+ */
+export class WatcherSet {
+  private _entries = new Set<WatchEntry>();
+  private _suspended = false;
+  /** True while onMount runs. Watchers created then are dropped on unmount. */
+  mounting = false;
+
+  constructor(private _context: Omit<MantleErrorContext, 'phase'>) {}
+
+  add<T>(
+    expr: () => T,
+    callback: (value: T, prevValue: T | undefined) => void,
+    options?: WatchOptions
+  ): () => void {
+    const entry: WatchEntry = {
+      mountScoped: this.mounting,
+      start: () => {
+        entry.dispose = reaction(
+          expr,
+          (value, prevValue) => {
+            try {
+              callback(value, prevValue);
+            } catch (e) {
+              reportError(e, { phase: 'watch', ...this._context });
+            }
+          },
+          {
+            scheduler: options?.delay ? delayScheduler(options.delay) : undefined,
+            fireImmediately: options?.fireImmediately,
+          }
+        );
+      },
+    };
+
+    this._entries.add(entry);
+    if (!this._suspended) entry.start();
+
+    return () => {
+      entry.dispose?.();
+      this._entries.delete(entry);
+    };
+  }
+
+  /** Stop all watchers, keeping the ones that should resume on the next mount */
+  suspend(): void {
+    this._suspended = true;
+    for (const entry of this._entries) {
+      entry.dispose?.();
+      entry.dispose = undefined;
+      if (entry.mountScoped) this._entries.delete(entry);
+    }
+  }
+
+  /** Number of watchers, and how many are running (not suspended), for devtools */
+  stats(): { total: number; active: number } {
+    let active = 0;
+    for (const entry of this._entries) if (entry.dispose) active++;
+    return { total: this._entries.size, active };
+  }
+
+  /** Restart suspended watchers */
+  resume(): void {
+    if (!this._suspended) return;
+    this._suspended = false;
+    for (const entry of this._entries) entry.start();
+  }
+}
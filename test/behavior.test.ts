@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { getObserverTree, runInAction } from 'mobx';
+import { View, Behavior, createView, createBehavior, html } from '../src';
+
+const log: string[] = [];
+
+class TickBehavior extends Behavior {
+  name = '';
+
+  onCreate(name: string) {
+    this.name = name;
+  }
+
+  onMount() {
+    log.push(`mount ${this.name}`);
+  }
+
+  onUnmount() {
+    log.push(`unmount ${this.name}`);
+  }
+}
+const withTick = createBehavior(TickBehavior);
+
+class DashboardView extends View {
+  count = 0;
+  label = 'dashboard';
+  rows = Array.from({ length: 100 }, (_, id) => ({ id }));
+  ticks: TickBehavior[] = [];
+  later: TickBehavior | null = null;
+  main = withTick('main');
+
+  render() {
+    return html`${this.ticks.length}`;
+  }
+}
+createView(DashboardView, { tag: 'x-behavior-dashboard' });
+
+describe('owned behaviors', () => {
+  it('mounts and unmounts behaviors assigned or removed while mounted', () => {
+    const element = document.createElement('x-behavior-dashboard');
+    document.body.append(element);
+    const vm = (element as any)._vm as DashboardView;
+    expect(log.splice(0)).toEqual(['mount main']);
+
+    runInAction(() => { vm.later = withTick('later'); });
+    runInAction(() => { vm.ticks.push(withTick('a'), withTick('b')); });
+    runInAction(() => { vm.ticks.shift(); });
+    runInAction(() => { vm.main = withTick('next'); });
+    expect(log.splice(0)).toEqual(['mount later', 'mount a', 'mount b', 'unmount a', 'unmount main', 'mount next']);
+
+    element.remove();
+    log.splice(0);
+  });
+
+  it("doesn't track fields that can't hold behaviors", () => {
+    const element = document.createElement('x-behavior-dashboard');
+    document.body.append(element);
+    const vm = (element as any)._vm as DashboardView;
+
+    expect(getObserverTree(vm, 'count').observers).toBeUndefined();
+    expect(getObserverTree(vm, 'label').observers).toBeUndefined();
+    expect(getObserverTree(vm.rows).observers).toBeUndefined();
+    expect(getObserverTree(vm, 'later').observers).toHaveLength(1);
+
+    element.remove();
+    log.splice(0);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { View, createView, defineLazy, html } from '../src';
+
+class WidgetView extends View {
+  render() {
+    return html`<span>widget</span>`;
+  }
+}
+
+class PageView extends View {
+  render() {
+    return html`<x-lazy-widget></x-lazy-widget>`;
+  }
+}
+
+const until = async (check: () => boolean) => {
+  for (let i = 0; i < 50 && !check(); i++) await new Promise((resolve) => setTimeout(resolve, 5));
+};
+
+describe('defineLazy()', () => {
+  it('loads lazy tags rendered by a lazily loaded view', async () => {
+    defineLazy({
+      'x-lazy-page': async () => createView(PageView, { tag: 'x-lazy-page' }),
+      'x-lazy-widget': async () => createView(WidgetView, { tag: 'x-lazy-widget' }),
+    });
+    document.body.innerHTML = '<x-lazy-page></x-lazy-page>';
+
+    await until(() => !!customElements.get('x-lazy-widget'));
+    const page = document.querySelector('x-lazy-page')!;
+    const widget = page.shadowRoot!.querySelector('x-lazy-widget')!;
+    expect(customElements.get('x-lazy-widget')).toBeDefined();
+    expect(widget.shadowRoot!.textContent).toContain('widget');
+  });
+
+});
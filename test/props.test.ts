@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { View, createView, mount, unmountAll, property, html } from '../src';
+
+afterEach(() => unmountAll());
+
+class CardView extends View<{ title: string; label: string }> {
+  render() {
+    return html`<h2>${this.props.title}</h2><p>${this.props.label}</p>`;
+  }
+}
+const Card = createView(CardView, { tag: 'x-props-card' });
+
+class BannerView extends View {
+  @property() title = '';
+
+  render() {
+    return html`<h2>${this.title}</h2>`;
+  }
+}
+const Banner = createView(BannerView, { tag: 'x-props-banner' });
+
+describe('mount() props', () => {
+  it('sends typed props named like HTMLElement properties to the view', async () => {
+    const handle = mount(Card, { title: 'Hello', label: 'L' });
+    const vm = (handle.element as any)._vm as CardView;
+    await handle.ready;
+
+    expect({ ...vm.props }).toEqual({ title: 'Hello', label: 'L' });
+    expect(handle.element.title).toBe('');
+    expect(handle.element.shadowRoot!.querySelector('h2')!.textContent).toBe('Hello');
+
+    handle.update({ title: 'Bye' });
+    await handle.element.updateComplete;
+    expect(vm.props.title).toBe('Bye');
+    expect(handle.element.title).toBe('');
+    expect(handle.element.shadowRoot!.querySelector('h2')!.textContent).toBe('Bye');
+  });
+
+  it('sets declared props through the element', async () => {
+    const handle = mount(Banner, { title: 'Declared' });
+    await handle.ready;
+    expect(handle.element.title).toBe('Declared');
+    expect(handle.element.shadowRoot!.querySelector('h2')!.textContent).toBe('Declared');
+  });
+});
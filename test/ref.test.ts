@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { View, Behavior, createView, createBehavior, createRef, ref, html, type Ref } from '../src';
+
+const log: string[] = [];
+
+class ListenerBehavior extends Behavior {
+  target!: Ref<HTMLElement>;
+
+  onCreate(target: Ref<HTMLElement>) {
+    this.target = target;
+  }
+
+  onMount() {
+    return () => log.push(`behavior cleanup ${this.target.value?.localName}`);
+  }
+
+  onUnmount() {
+    log.push(`behavior unmount ${this.target.value?.localName}`);
+  }
+}
+const withListener = createBehavior(ListenerBehavior);
+
+class CanvasView extends View {
+  canvas = createRef<HTMLCanvasElement>();
+  listener = withListener(this.canvas);
+
+  onMount() {
+    log.push(`mount ${this.canvas.value?.localName}`);
+    return () => log.push(`cleanup ${this.canvas.value?.localName}`);
+  }
+
+  onUnmount() {
+    log.push(`unmount ${this.canvas.value?.localName}`);
+  }
+
+  render() {
+    return html`<canvas ${ref(this.canvas)}></canvas>`;
+  }
+}
+createView(CanvasView, { tag: 'x-ref-canvas' });
+
+describe('refs', () => {
+  it('hold their element in unmount hooks and are cleared afterwards', () => {
+    const element = document.createElement('x-ref-canvas');
+    document.body.append(element);
+    const vm = (element as any)._vm as CanvasView;
+    expect(log.splice(0)).toEqual(['mount canvas']);
+
+    element.remove();
+    expect(log.splice(0)).toEqual([
+      'cleanup canvas',
+      'unmount canvas',
+      'behavior cleanup canvas',
+      'behavior unmount canvas',
+    ]);
+    expect(vm.canvas.value).toBeUndefined();
+
+    document.body.append(element);
+    expect(vm.canvas.value?.localName).toBe('canvas');
+    element.remove();
+  });
+});
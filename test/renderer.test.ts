@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { runInAction } from 'mobx';
+import { View, createView, mountView, domRenderer, type Renderer } from '../src';
+
+class ClockView extends View {
+  time = '10:00';
+
+  render() {
+    const p = document.createElement('p');
+    p.textContent = this.time;
+    return p;
+  }
+}
+
+const textRenderer: Renderer = {
+  render(text, root) {
+    root.textContent = String(text);
+  },
+  clear(root) {
+    root.textContent = '';
+  },
+};
+
+class GreetingView extends View<{ name: string }> {
+  render() {
+    return `Hello, ${this.props.name}`;
+  }
+}
+
+describe('renderers', () => {
+  it('renders DOM nodes through domRenderer in a custom element', async () => {
+    const Clock = createView(ClockView, { tag: 'x-renderer-clock', renderer: domRenderer });
+    const element = new Clock();
+    document.body.append(element);
+    const vm = (element as any)._vm as ClockView;
+    expect(element.shadowRoot!.innerHTML).toBe('<p>10:00</p>');
+
+    runInAction(() => { vm.time = '10:01'; });
+    await element.updateComplete;
+    expect(element.shadowRoot!.innerHTML).toBe('<p>10:01</p>');
+    element.remove();
+  });
+
+  it('renders through a custom renderer with mountView()', async () => {
+    const container = document.createElement('div');
+    const handle = mountView(GreetingView, container, { renderer: textRenderer, props: { name: 'Ada' } });
+    expect(container.textContent).toBe('Hello, Ada');
+
+    runInAction(() => { handle.vm.props.name = 'Grace'; });
+    await handle.updateComplete;
+    expect(container.textContent).toBe('Hello, Grace');
+
+    handle.unmount();
+    expect(container.textContent).toBe('');
+  });
+});
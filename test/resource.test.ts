@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { observable, runInAction } from 'mobx';
+import { withResource } from '../src';
+import { createTestBehavior } from '../src/testing';
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('withResource()', () => {
+  it('keeps the initial value while the key is null', async () => {
+    const { behavior, unmount } = createTestBehavior(
+      withResource<string | null, string[]>,
+      () => null,
+      async () => ['loaded'],
+      { initialValue: [] },
+    );
+    await settle();
+    expect(behavior.status).toBe('idle');
+    expect(behavior.value).toEqual([]);
+    unmount();
+  });
+
+  it('loads again on remount after unmount aborted a load', async () => {
+    const key = observable.box('a');
+    const pending = new Map<string, (value: string) => void>();
+    const test = createTestBehavior(
+      withResource<string, string>,
+      () => key.get(),
+      (id) => new Promise<string>((resolve) => pending.set(id, resolve)),
+    );
+    pending.get('a')!('vA');
+    await settle();
+    expect(test.behavior.value).toBe('vA');
+
+    runInAction(() => key.set('b'));
+    test.unmount();
+    runInAction(() => key.set('a'));
+    test.mount();
+    pending.get('a')!('vA2');
+    await settle();
+    expect(test.behavior.status).toBe('success');
+    expect(test.behavior.value).toBe('vA2');
+    test.unmount();
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { css } from '../src';
+import { defineTokens, createTheme, type Theme } from '../src/theme';
+
+const tokens = defineTokens({ color: { background: '#fff', primaryHover: '#00f' }, radius: 4 }, { prefix: 'app' });
+
+describe('themes', () => {
+  it('interpolates tokens as custom properties with their defaults', () => {
+    expect(css`a { color: ${tokens.color.primaryHover}; }`.cssText).toBe('a { color: var(--app-color-primary-hover, #00f); }');
+  });
+
+  it('defines <mantle-theme> on first createTheme() and applies the theme to it', async () => {
+    expect(customElements.get('mantle-theme')).toBeUndefined();
+    const dark = createTheme(tokens, 'dark', { color: { background: '#111' } });
+    expect(dark.get(tokens.color.background)).toBe('#111');
+    expect(dark.get(tokens.radius)).toBe('4');
+
+    const provider = document.createElement('mantle-theme') as HTMLElement & { theme?: Theme; updateComplete: Promise<unknown> };
+    provider.theme = dark;
+    document.body.append(provider);
+    await provider.updateComplete;
+    const wrapper = provider.shadowRoot!.querySelector('div')!;
+    expect(wrapper.dataset.theme).toBe('dark');
+    expect(wrapper.style.getPropertyValue('--app-color-background')).toBe('#111');
+    provider.remove();
+  });
+});
@@ -1,10 +1,12 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/ssr.ts', 'src/testing.ts', 'src/vite.ts', 'src/devtools.ts', 'src/router.ts', 'src/theme.ts'],
+  // Entries share one copy of the core (and its config) in both formats
+  splitting: true,
   format: ['esm', 'cjs'],
   dts: true,
   clean: true,
   sourcemap: true,
-  external: ['lit', 'mobx'],
+  external: ['lit', 'mobx', '@lit-labs/ssr', '@lit-labs/ssr-dom-shim', 'vite'],
 });
@@ -1,5 +1,7 @@
 import { defineConfig } from 'vite';
+import { mantleHmr } from './src/vite';
 
 export default defineConfig({
   root: '.',
+  plugins: [mantleHmr()],
 });